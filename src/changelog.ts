@@ -76,7 +76,12 @@ function categorizeFile(file: string): { category: string; object: string } | nu
   const parts = file.split("/");
   const categories = [
     "schemas", "tables", "functions", "views", "materialized_views",
-    "sequences", "triggers", "types", "indexes", "data",
+    "sequences", "triggers", "types", "indexes", "policies", "privileges", "data",
+    "roles", "role_memberships", "tablespaces", "extensions",
+    "publications", "subscriptions", "event_triggers", "rules",
+    "foreign_data_wrappers", "foreign_servers", "user_mappings", "foreign_tables",
+    "procedures", "aggregates", "operators", "casts", "collations", "text_search",
+    "statistics", "database_settings", "partman_configs", "cron_jobs",
   ];
   for (let i = 0; i < parts.length - 1; i++) {
     if (categories.includes(parts[i])) {
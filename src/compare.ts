@@ -1,6 +1,7 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as crypto from "crypto";
+import { OwnerMap, remapOwners } from "./owners";
 
 // ─── Types ────────────────────────────────────────────────────────
 
@@ -23,6 +24,17 @@ interface DiffSummary {
   items: DiffItem[];
 }
 
+export interface CompareOptions {
+  /** Owner remapping applied to both sides before comparing */
+  ownerMap?: OwnerMap;
+}
+
+interface PublicationGap {
+  publication: string;
+  table: string;
+  missingIn: "DEV" | "PROD";
+}
+
 // ─── Helpers ──────────────────────────────────────────────────────
 
 function getCategories(dir: string): string[] {
@@ -45,8 +57,8 @@ function getSqlFiles(dir: string): Map<string, string> {
   return files;
 }
 
-function fileHash(filepath: string): string {
-  const content = fs.readFileSync(filepath, "utf-8");
+function fileHash(filepath: string, ownerMap?: OwnerMap): string {
+  const content = remapOwners(fs.readFileSync(filepath, "utf-8"), ownerMap);
   // Normalize: ignore timestamp lines, trim each line, remove empty lines
   const normalized = content
     .split("\n")
@@ -64,6 +76,37 @@ function stripHeader(content: string): string {
   return start >= 0 ? lines.slice(start).join("\n").trim() : content.trim();
 }
 
+/**
+ * Tables (and TABLES IN SCHEMA entries) listed in a CREATE PUBLICATION file.
+ * The extractor writes one entry per line between the header and WITH (...).
+ */
+function publicationMembers(filepath: string): string[] {
+  const lines = stripHeader(fs.readFileSync(filepath, "utf-8")).split("\n");
+  const end = lines.findIndex((l) => l.trim().startsWith("WITH ("));
+  return lines
+    .slice(1, end >= 0 ? end : undefined)
+    .map((l) => l.trim().replace(/,$/, ""))
+    .filter((l) => l !== "" && !l.startsWith("WITH ("))
+    .map((l) => (l.startsWith("TABLES IN SCHEMA ") ? l : l.split(" ")[0]));
+}
+
+/** Tables published in one environment but missing from the same publication in the other */
+function getPublicationGaps(summary: DiffSummary): PublicationGap[] {
+  const gaps: PublicationGap[] = [];
+  for (const item of summary.items) {
+    if (item.category !== "publications" || item.status !== "modified") continue;
+    const devMembers = publicationMembers(item.devFile!);
+    const prodMembers = publicationMembers(item.prodFile!);
+    for (const table of devMembers.filter((t) => !prodMembers.includes(t))) {
+      gaps.push({ publication: item.object, table, missingIn: "PROD" });
+    }
+    for (const table of prodMembers.filter((t) => !devMembers.includes(t))) {
+      gaps.push({ publication: item.object, table, missingIn: "DEV" });
+    }
+  }
+  return gaps;
+}
+
 /** Normalize a line for comparison: trim trailing whitespace */
 function normalizeLine(line: string): string {
   return line.trimEnd();
@@ -73,9 +116,10 @@ function normalizeLine(line: string): string {
  * LCS-based diff — finds actual insertions/deletions/changes
  * between dev and prod, ignoring whitespace-only differences
  */
-function lineDiff(devPath: string, prodPath: string): string[] {
-  const devLines = stripHeader(fs.readFileSync(devPath, "utf-8")).split("\n");
-  const prodLines = stripHeader(fs.readFileSync(prodPath, "utf-8")).split("\n");
+function lineDiff(devPath: string, prodPath: string, ownerMap?: OwnerMap): string[] {
+  const read = (file: string) => remapOwners(stripHeader(fs.readFileSync(file, "utf-8")), ownerMap);
+  const devLines = read(devPath).split("\n");
+  const prodLines = read(prodPath).split("\n");
 
   const devNorm = devLines.map(normalizeLine);
   const prodNorm = prodLines.map(normalizeLine);
@@ -213,7 +257,7 @@ function simpleDiff(devLines: string[], prodLines: string[]): string[] {
 
 // ─── Main Comparator ──────────────────────────────────────────────
 
-export function compareDdl(sqlRoot: string): DiffSummary {
+export function compareDdl(sqlRoot: string, options: CompareOptions = {}): DiffSummary {
   const devDir = path.join(sqlRoot, "dev");
   const prodDir = path.join(sqlRoot, "prod");
 
@@ -255,8 +299,8 @@ export function compareDdl(sqlRoot: string): DiffSummary {
           prodFile: prodFiles.get(obj),
         });
       } else if (inDev && inProd) {
-        const devHash = fileHash(devFiles.get(obj)!);
-        const prodHash = fileHash(prodFiles.get(obj)!);
+        const devHash = fileHash(devFiles.get(obj)!, options.ownerMap);
+        const prodHash = fileHash(prodFiles.get(obj)!, options.ownerMap);
 
         if (devHash !== prodHash) {
           items.push({
@@ -265,7 +309,7 @@ export function compareDdl(sqlRoot: string): DiffSummary {
             status: "modified",
             devFile: devFiles.get(obj),
             prodFile: prodFiles.get(obj),
-            diff: lineDiff(devFiles.get(obj)!, prodFiles.get(obj)!),
+            diff: lineDiff(devFiles.get(obj)!, prodFiles.get(obj)!, options.ownerMap),
           });
         } else {
           identical++;
@@ -287,7 +331,11 @@ export function compareDdl(sqlRoot: string): DiffSummary {
 
 // ─── Compare two arbitrary directories ────────────────────────────
 
-export function compareDdlDirs(dir1: string, dir2: string): DiffSummary {
+export function compareDdlDirs(
+  dir1: string,
+  dir2: string,
+  options: CompareOptions = {}
+): DiffSummary {
   if (!fs.existsSync(dir1)) throw new Error(`Folder not found: ${dir1}`);
   if (!fs.existsSync(dir2)) throw new Error(`Folder not found: ${dir2}`);
 
@@ -316,8 +364,8 @@ export function compareDdlDirs(dir1: string, dir2: string): DiffSummary {
       } else if (!in1 && in2) {
         items.push({ category, object: obj.replace(".sql", ""), status: "only_prod", prodFile: files2.get(obj) });
       } else if (in1 && in2) {
-        const hash1 = fileHash(files1.get(obj)!);
-        const hash2 = fileHash(files2.get(obj)!);
+        const hash1 = fileHash(files1.get(obj)!, options.ownerMap);
+        const hash2 = fileHash(files2.get(obj)!, options.ownerMap);
         if (hash1 !== hash2) {
           items.push({
             category,
@@ -325,7 +373,7 @@ export function compareDdlDirs(dir1: string, dir2: string): DiffSummary {
             status: "modified",
             devFile: files1.get(obj),
             prodFile: files2.get(obj),
-            diff: lineDiff(files1.get(obj)!, files2.get(obj)!),
+            diff: lineDiff(files1.get(obj)!, files2.get(obj)!, options.ownerMap),
           });
         } else {
           identical++;
@@ -361,7 +409,11 @@ export interface MultiEnvResult {
   }[];
 }
 
-export function compareMultiEnv(sqlRoot: string, envNames: string[]): MultiEnvResult {
+export function compareMultiEnv(
+  sqlRoot: string,
+  envNames: string[],
+  options: CompareOptions = {}
+): MultiEnvResult {
   const pairs: MultiEnvResult["pairs"] = [];
 
   for (let i = 0; i < envNames.length; i++) {
@@ -369,7 +421,7 @@ export function compareMultiEnv(sqlRoot: string, envNames: string[]): MultiEnvRe
       const dir1 = path.join(sqlRoot, envNames[i]);
       const dir2 = path.join(sqlRoot, envNames[j]);
 
-      const summary = compareDdlDirs(dir1, dir2);
+      const summary = compareDdlDirs(dir1, dir2, options);
       pairs.push({
         env1: envNames[i],
         env2: envNames[j],
@@ -588,6 +640,18 @@ export function formatMarkdownReport(summary: DiffSummary): string {
     }
   }
 
+  const publicationGaps = getPublicationGaps(summary);
+  if (publicationGaps.length > 0) {
+    lines.push("## 📣 Publication Membership");
+    lines.push("");
+    lines.push("| Publication | Table | Missing in |");
+    lines.push("|-------------|-------|------------|");
+    for (const gap of publicationGaps) {
+      lines.push(`| ${gap.publication} | ${gap.table} | ${gap.missingIn} |`);
+    }
+    lines.push("");
+  }
+
   if (summary.only_dev === 0 && summary.only_prod === 0 && summary.modified === 0) {
     lines.push("## 🎉 DEV and PROD are perfectly in sync!");
     lines.push("");
@@ -804,6 +868,7 @@ export function formatHtmlReport(summary: DiffSummary): string {
   const onlyDev = summary.items.filter((i) => i.status === "only_dev");
   const onlyProd = summary.items.filter((i) => i.status === "only_prod");
   const modified = summary.items.filter((i) => i.status === "modified");
+  const publicationGaps = getPublicationGaps(summary);
 
   // Group by category for modified items
   const modifiedByCategory = new Map<string, DiffItem[]>();
@@ -1194,6 +1259,27 @@ ${
     : ""
 }
 
+${
+  publicationGaps.length > 0
+    ? `
+<div class="section" id="section-publications">
+  <div class="section-header yellow-header" onclick="toggle('publications')">
+    <span class="arrow" id="arrow-publications">▼</span>
+    📣 Publication Membership
+    <span class="badge">${publicationGaps.length}</span>
+  </div>
+  <div class="section-body" id="body-publications">
+    <table class="obj-table">
+      <thead><tr><th>Publication</th><th>Table</th><th>Missing in</th></tr></thead>
+      <tbody>
+        ${publicationGaps.map((g) => `<tr><td>${escapeHtml(g.publication)}</td><td>${escapeHtml(g.table)}</td><td>${g.missingIn}</td></tr>`).join("\n        ")}
+      </tbody>
+    </table>
+  </div>
+</div>`
+    : ""
+}
+
 <script>
 function toggle(id) {
   const body = document.getElementById('body-' + id);
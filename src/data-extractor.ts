@@ -1,7 +1,8 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as crypto from "crypto";
-import { Client } from "pg";
+import { ClientBase } from "pg";
+import { WorkerPool, parallelWorkers } from "./pool";
 
 // ─── Types ────────────────────────────────────────────────────
 
@@ -14,10 +15,13 @@ export interface DataExtractionOptions {
 // ─── Data Extractor ───────────────────────────────────────────
 
 export class DataExtractor {
-  private client: Client;
+  private client: ClientBase;
+  private workers?: WorkerPool;
 
-  constructor(client: Client) {
+  /** With workers (--jobs), tables are extracted in parallel on their connections */
+  constructor(client: ClientBase, workers?: WorkerPool) {
     this.client = client;
+    this.workers = workers;
   }
 
   async extractData(options: DataExtractionOptions): Promise<void> {
@@ -29,24 +33,53 @@ export class DataExtractor {
 
     let totalRows = 0;
 
-    for (const tableName of tables) {
-      const [schema, table] = this.parseTableName(tableName);
-
-      // Check table exists
-      const exists = await this.tableExists(schema, table);
-      if (!exists) {
-        console.log(`  ⚠️  ${schema}.${table} — table not found, skipping`);
+    const tasks = tables.map(
+      (tableName) => (client: ClientBase) =>
+        new DataExtractor(client).extractTable(tableName, dataDir, maxRows)
+    );
+    const results = this.workers
+      ? await parallelWorkers(this.workers, tasks)
+      : await this.runInOrder(tasks);
+
+    // Reported in the order the tables were given, whichever finished first
+    for (const { name, rowCount } of results) {
+      if (rowCount === null) {
+        console.log(`  ⚠️  ${name} — table not found, skipping`);
         continue;
       }
-
-      const rowCount = await this.extractTableData(schema, table, dataDir, maxRows);
       totalRows += rowCount;
-      console.log(`  📋 ${schema}.${table} — ${rowCount} rows`);
+      console.log(`  📋 ${name} — ${rowCount} rows`);
     }
 
     console.log(`\n  📊 Total: ${totalRows} rows extracted to ${dataDir}`);
   }
 
+  private async runInOrder<T>(tasks: Array<(client: ClientBase) => Promise<T>>): Promise<T[]> {
+    const results: T[] = [];
+    for (const task of tasks) {
+      results.push(await task(this.client));
+    }
+    return results;
+  }
+
+  /** Extract one table; rowCount is null when the table does not exist */
+  private async extractTable(
+    tableName: string,
+    dataDir: string,
+    maxRows: number
+  ): Promise<{ name: string; rowCount: number | null }> {
+    const [schema, table] = this.parseTableName(tableName);
+    const name = `${schema}.${table}`;
+
+    // Check table exists
+    const exists = await this.tableExists(schema, table);
+    if (!exists) {
+      return { name, rowCount: null };
+    }
+
+    return { name, rowCount: await this.extractTableData(schema, table, dataDir, maxRows) };
+  }
+
   private parseTableName(name: string): [string, string] {
     const parts = name.split(".");
     if (parts.length === 2) {
@@ -13,6 +13,7 @@ import {
   formatSideBySideHtml,
   formatMultiEnvReport,
 } from "./compare";
+import { loadRcConfig } from "./rc-config";
 
 // ─── Load .env ────────────────────────────────────────────────────
 dotenv.config();
@@ -60,6 +61,9 @@ function main(): void {
     process.exit(1);
   }
 
+  // Owners remapped in the config file are not reported as differences
+  const compareOptions = { ownerMap: loadRcConfig()?.ownerMap };
+
   try {
     // Multi-environment comparison
     if (options.envs) {
@@ -79,7 +83,7 @@ function main(): void {
         }
       }
 
-      const result = compareMultiEnv(sqlRoot, envNames);
+      const result = compareMultiEnv(sqlRoot, envNames, compareOptions);
       console.log(formatMultiEnvReport(result));
       return;
     }
@@ -98,8 +102,8 @@ function main(): void {
     }
 
     const summary = options.dev || options.prod
-      ? compareDdlDirs(devDir, prodDir)
-      : compareDdl(sqlRoot);
+      ? compareDdlDirs(devDir, prodDir, compareOptions)
+      : compareDdl(sqlRoot, compareOptions);
 
     // Always print to console
     console.log(formatConsoleReport(summary));
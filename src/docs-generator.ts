@@ -1,4 +1,5 @@
-import { Client } from "pg";
+import { ClientBase } from "pg";
+import { WorkerPool, parallelWorkers } from "./pool";
 
 // ─── Types ────────────────────────────────────────────────────
 
@@ -50,10 +51,13 @@ const EXCLUDED = `('pg_catalog', 'information_schema', 'pg_toast')`;
 // ─── Documentation Generator ──────────────────────────────────
 
 export class DocsGenerator {
-  private client: Client;
+  private client: ClientBase;
+  private workers?: WorkerPool;
 
-  constructor(client: Client) {
+  /** With workers (--jobs), tables are documented in parallel on their connections */
+  constructor(client: ClientBase, workers?: WorkerPool) {
     this.client = client;
+    this.workers = workers;
   }
 
   async generate(): Promise<SchemaDoc> {
@@ -101,29 +105,37 @@ export class DocsGenerator {
       [schema]
     );
 
-    const result: TableInfo[] = [];
+    const tasks = tables.map(
+      (tbl: { tablename: string }) => (client: ClientBase) =>
+        new DocsGenerator(client).getTableInfo(schema, tbl.tablename)
+    );
+    if (this.workers) return parallelWorkers(this.workers, tasks);
 
-    for (const tbl of tables) {
-      const columns = await this.getColumns(schema, tbl.tablename);
-      const indexes = await this.getIndexes(schema, tbl.tablename);
-      const fks = await this.getForeignKeys(schema, tbl.tablename);
-      const comment = await this.getTableComment(schema, tbl.tablename);
-      const stats = await this.getTableStats(schema, tbl.tablename);
-
-      result.push({
-        name: tbl.tablename,
-        comment,
-        rowEstimate: stats.rows,
-        sizeEstimate: stats.size,
-        columns,
-        indexes,
-        fks,
-      });
+    const result: TableInfo[] = [];
+    for (const task of tasks) {
+      result.push(await task(this.client));
     }
-
     return result;
   }
 
+  private async getTableInfo(schema: string, table: string): Promise<TableInfo> {
+    const columns = await this.getColumns(schema, table);
+    const indexes = await this.getIndexes(schema, table);
+    const fks = await this.getForeignKeys(schema, table);
+    const comment = await this.getTableComment(schema, table);
+    const stats = await this.getTableStats(schema, table);
+
+    return {
+      name: table,
+      comment,
+      rowEstimate: stats.rows,
+      sizeEstimate: stats.size,
+      columns,
+      indexes,
+      fks,
+    };
+  }
+
   private async getColumns(schema: string, table: string): Promise<ColumnInfo[]> {
     const { rows } = await this.client.query(
       `SELECT
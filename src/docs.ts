@@ -2,14 +2,16 @@ import * as fs from "fs";
 import * as path from "path";
 import { program } from "commander";
 const pkg = require("../package.json");
-import { DocsGenerator, formatDocsMarkdown, formatDocsMermaid } from "./docs-generator";
+import { DocsGenerator, SchemaDoc, formatDocsMarkdown, formatDocsMermaid } from "./docs-generator";
 import { DbCliOptions, runWithConnection } from "./cli-utils";
+import { beginSnapshot, endSnapshot, openWorkerPool, closeWorkerPool } from "./pool";
 
 // ─── Parse CLI args ───────────────────────────────────────────────
 interface CliOptions extends DbCliOptions {
   output?: string;
   format?: string;
   diagram?: boolean;
+  jobs?: string;
 }
 
 function parseArgs(): CliOptions {
@@ -26,9 +28,17 @@ function parseArgs(): CliOptions {
     .option("--output <path>", "Output directory for documentation")
     .option("--format <format>", "Output format: markdown (default)", "markdown")
     .option("--diagram", "Include Mermaid ERD diagram")
+    .option("--jobs <n>", "Document tables with n parallel connections (default: 1)")
     .parse(process.argv);
 
-  return program.opts<CliOptions>();
+  const options = program.opts<CliOptions>();
+
+  if (options.jobs !== undefined && !/^[1-9]\d*$/.test(options.jobs)) {
+    console.error(`❌ Invalid --jobs: "${options.jobs}". Must be a positive number`);
+    process.exit(1);
+  }
+
+  return options;
 }
 
 // ─── Main ─────────────────────────────────────────────────────────
@@ -41,11 +51,20 @@ async function main(): Promise<void> {
   console.log(`  Environment: ${env.toUpperCase()}`);
   console.log("═══════════════════════════════════════════════════════════");
 
-  await runWithConnection(options, async (client) => {
+  await runWithConnection(options, async (client, config) => {
     console.log("📝 Generating documentation...\n");
 
-    const generator = new DocsGenerator(client);
-    const doc = await generator.generate();
+    // All queries read one snapshot; parallel workers share the one exported here
+    await beginSnapshot(client);
+    const jobs = options.jobs ? parseInt(options.jobs, 10) : 1;
+    const workers = jobs > 1 ? await openWorkerPool(client, config, jobs) : undefined;
+    let doc: SchemaDoc;
+    try {
+      doc = await new DocsGenerator(client, workers).generate();
+    } finally {
+      if (workers) await closeWorkerPool(workers);
+      await endSnapshot(client);
+    }
 
     // Determine output directory (default: sql/docs/)
     const outputDir = options.output
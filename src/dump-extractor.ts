@@ -0,0 +1,928 @@
+import * as fs from "fs";
+import * as path from "path";
+import { SqlFileWriter, ObjectCategory } from "./writer";
+import { ExtractionFilters, ExtractionOptions } from "./extractor";
+import { remapOwners } from "./owners";
+
+// ─── Types ────────────────────────────────────────────────────
+
+/** One TOC entry of a plain-format pg_dump file */
+export interface DumpEntry {
+  /** Tag from the "-- Name:" header, e.g. "users" or "users users_pkey" */
+  name: string;
+  /** TOC entry type, e.g. TABLE, FK CONSTRAINT, COMMENT */
+  type: string;
+  schema: string | null;
+  owner: string | null;
+  /** Table data rather than DDL ("-- Data for Name:") */
+  data: boolean;
+  ddl: string;
+}
+
+interface DumpFile {
+  category: ObjectCategory;
+  name: string;
+  parts: string[];
+}
+
+interface DumpObject {
+  type: string;
+  file: DumpFile;
+}
+
+/** Storage settings pg_dump sets for the session instead of writing them into the DDL */
+interface SessionStorage {
+  tablespace: string | null;
+  accessMethod: string | null;
+}
+
+/** Parent and bound of a partition, from its TABLE ATTACH entry */
+interface PartitionAttachment {
+  parent: string;
+  bound: string;
+  /** The ATTACH PARTITION statement, kept when the partition cannot be rewritten */
+  ddl: string;
+}
+
+// Header of a TOC entry, optionally preceded by "-- TOC entry" / "-- Dependencies" lines
+const TOC_HEADER =
+  /^-- (Data for )?Name: (.*?); Type: (.*?); Schema: (.*?); Owner: (.*?)(?:; Tablespace: .*)?$/;
+
+// Statements pg_dump emits before objects to reset session defaults
+const SESSION_DEFAULT =
+  /^SET (default_tablespace = ''|default_table_access_method = heap|default_with_oids = false);$/;
+
+/** Entry types whose tag is enough to name the object file */
+const OBJECT_CATEGORIES: Record<string, ObjectCategory> = {
+  SCHEMA: "schemas",
+  EXTENSION: "extensions",
+  TYPE: "types",
+  DOMAIN: "types",
+  SEQUENCE: "sequences",
+  TABLE: "tables",
+  "FOREIGN TABLE": "foreign_tables",
+  VIEW: "views",
+  "MATERIALIZED VIEW": "materialized_views",
+  FUNCTION: "functions",
+  PROCEDURE: "procedures",
+  AGGREGATE: "aggregates",
+  COLLATION: "collations",
+  CAST: "casts",
+  OPERATOR: "operators",
+  "OPERATOR FAMILY": "operators",
+  "OPERATOR CLASS": "operators",
+  "TEXT SEARCH PARSER": "text_search",
+  "TEXT SEARCH TEMPLATE": "text_search",
+  "TEXT SEARCH DICTIONARY": "text_search",
+  "TEXT SEARCH CONFIGURATION": "text_search",
+  "FOREIGN DATA WRAPPER": "foreign_data_wrappers",
+  SERVER: "foreign_servers",
+  "USER MAPPING": "user_mappings",
+  TRIGGER: "triggers",
+  "EVENT TRIGGER": "event_triggers",
+  RULE: "rules",
+  INDEX: "indexes",
+  STATISTICS: "statistics",
+  POLICY: "policies",
+  PUBLICATION: "publications",
+  SUBSCRIPTION: "subscriptions",
+};
+
+/** Entry types that only carry session settings or data */
+const IGNORED_TYPES = [
+  "ENCODING",
+  "STDSTRINGS",
+  "SEARCHPATH",
+  "TABLE DATA",
+  "SEQUENCE SET",
+  "MATERIALIZED VIEW DATA",
+  "BLOB",
+  "BLOBS",
+  "BLOB METADATA",
+  "LARGE OBJECT",
+];
+
+/** Privilege file prefixes of a live extraction, by object category */
+const PRIVILEGE_KINDS: Partial<Record<ObjectCategory, string>> = {
+  tables: "table",
+  views: "view",
+  materialized_views: "materialized_view",
+  foreign_tables: "foreign_table",
+  sequences: "sequence",
+  functions: "function",
+  procedures: "function",
+  aggregates: "function",
+};
+
+const RELATION_TYPES = ["TABLE", "VIEW", "MATERIALIZED VIEW", "FOREIGN TABLE"];
+
+// ─── Parsing ──────────────────────────────────────────────────
+
+/** Drop the comment lines around an entry, psql meta-commands and session resets */
+function cleanBody(lines: string[]): string {
+  const kept = lines.filter((l) => !l.startsWith("\\") && !SESSION_DEFAULT.test(l));
+  const isComment = (l: string | undefined) =>
+    l !== undefined && (l.trim() === "" || l.startsWith("--"));
+  while (isComment(kept[0])) kept.shift();
+  while (isComment(kept[kept.length - 1])) kept.pop();
+  return kept.join("\n").replace(/\n{3,}/g, "\n\n");
+}
+
+/** Split a plain-format (pg_dump -Fp) dump into its TOC entries */
+export function parseDump(sql: string): DumpEntry[] {
+  const entries: DumpEntry[] = [];
+  let current: DumpEntry | null = null;
+  let body: string[] = [];
+
+  for (const line of sql.split(/\r?\n/)) {
+    const match = line.match(TOC_HEADER);
+    if (!match) {
+      body.push(line);
+      continue;
+    }
+    if (current) {
+      current.ddl = cleanBody(body);
+      entries.push(current);
+    }
+    const nullable = (v: string) => (v === "-" || v === "" ? null : v);
+    current = {
+      name: match[2],
+      type: match[3],
+      schema: nullable(match[4]),
+      owner: nullable(match[5]),
+      data: !!match[1],
+      ddl: "",
+    };
+    body = [];
+  }
+  if (current) {
+    current.ddl = cleanBody(body);
+    entries.push(current);
+  }
+  return entries;
+}
+
+/** Split a comma-separated list at top level, ignoring commas in parentheses and quotes */
+function splitTopLevel(list: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < list.length; i++) {
+    const ch = list[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      items.push(list.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = list.slice(start).trim();
+  return last ? [...items, last] : items;
+}
+
+/** Argument list of a routine without arguments: "*" for aggregates, as in their DDL */
+function zeroArgs(entry: DumpEntry): string {
+  return entry.type === "AGGREGATE" ? "*" : "";
+}
+
+/**
+ * Identity arguments of a function, procedure or aggregate, read from the
+ * argument list of its CREATE statement the way
+ * pg_get_function_identity_arguments renders them: without defaults, and
+ * without OUT arguments for functions.
+ */
+function identityArguments(ddl: string, type: string): string {
+  const create = ddl.match(/^CREATE (?:OR REPLACE )?(?:FUNCTION|PROCEDURE|AGGREGATE) /m);
+  if (!create) return "";
+  const open = ddl.indexOf("(", create.index!);
+  let depth = 0;
+  let close = open;
+  for (let i = open; i < ddl.length; i++) {
+    if (ddl[i] === "(") depth++;
+    if (ddl[i] === ")" && --depth === 0) {
+      close = i;
+      break;
+    }
+  }
+  const args = ddl.slice(open + 1, close).trim();
+  if (args === "*") return "";
+  return splitTopLevel(args)
+    .map((arg) => arg.replace(/ (?:DEFAULT|=) .*$/s, ""))
+    .filter((arg) => type !== "FUNCTION" || !/^OUT /.test(arg))
+    .join(", ");
+}
+
+/** Remove identifier quotes from a COMMENT or ACL tag */
+function unquote(tag: string): string {
+  return tag.replace(/"/g, "");
+}
+
+/** Split a "table object" tag (constraints, triggers, rules, policies...) */
+function splitTag(tag: string): [string, string] {
+  const space = tag.indexOf(" ");
+  return [tag.slice(0, space), tag.slice(space + 1)];
+}
+
+// ─── Table folding ────────────────────────────────────────────
+
+/**
+ * Lines of a CREATE TABLE statement with the index of its first line and of
+ * the closing parenthesis, or null when the DDL has no column list.
+ */
+function tableLines(ddl: string): { lines: string[]; start: number; end: number } | null {
+  const lines = ddl.split("\n");
+  const start = lines.findIndex((l) => /^CREATE (?:UNLOGGED )?TABLE .*\($/.test(l));
+  if (start === -1) return null;
+  const end = lines.findIndex((l, i) => i > start && l.startsWith(")"));
+  return end === -1 ? null : { lines, start, end };
+}
+
+/** Add a DEFAULT or identity clause to a column definition, before NOT NULL */
+function foldColumnClause(ddl: string, column: string, clause: string): string | null {
+  const table = tableLines(ddl);
+  if (!table) return null;
+  const { lines, start, end } = table;
+  for (let i = start + 1; i < end; i++) {
+    if (!lines[i].startsWith(`    ${column} `)) continue;
+    const match = lines[i].match(/^(.*?)( NOT NULL)?(,?)$/)!;
+    lines[i] = `${match[1]} ${clause}${match[2] || ""}${match[3]}`;
+    return lines.join("\n");
+  }
+  return null;
+}
+
+/** Add a table constraint after the last column, as a live extraction writes it */
+function foldConstraint(ddl: string, name: string, definition: string): string | null {
+  const table = tableLines(ddl);
+  if (!table) return null;
+  const { lines, start, end } = table;
+  if (end > start + 1) lines[end - 1] += ",";
+  lines.splice(end, 0, `    CONSTRAINT ${name} ${definition}`);
+  return lines.join("\n");
+}
+
+/**
+ * Take the non-default SET default_tablespace / default_table_access_method
+ * statements out of an entry, so they can be written as clauses of its DDL.
+ */
+function takeSessionStorage(entry: DumpEntry): SessionStorage {
+  const take = (setting: string) => {
+    const match = entry.ddl.match(new RegExp(`^SET ${setting} = (.+);\\n*`, "m"));
+    if (!match) return null;
+    entry.ddl = entry.ddl.replace(match[0], "");
+    return match[1];
+  };
+  return {
+    tablespace: take("default_tablespace"),
+    accessMethod: take("default_table_access_method"),
+  };
+}
+
+/**
+ * Close a CREATE TABLE the way a live extraction does: INHERITS and PARTITION BY
+ * on the closing line, then USING, WITH and TABLESPACE on lines of their own.
+ */
+function closeTable(ddl: string, storage: SessionStorage): string {
+  const table = tableLines(ddl);
+  if (!table) return ddl;
+  const { lines, end } = table;
+  const last = lines.findIndex((l, i) => i >= end && l.endsWith(";"));
+  if (last === -1) return ddl;
+  const trailer = lines
+    .slice(end, last + 1)
+    .join("\n")
+    .slice(1)
+    .replace(/;$/, "")
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+  const known = ["INHERITS ", "PARTITION BY ", "WITH ("];
+  if (!trailer.every((l) => known.some((keyword) => l.startsWith(keyword)))) return ddl;
+
+  const clause = (keyword: string) => trailer.find((l) => l.startsWith(keyword));
+  const heading = [")", clause("INHERITS "), clause("PARTITION BY ")].filter(Boolean).join(" ");
+  // pg_dump quotes every storage parameter value, pg_class.reloptions does not
+  const reloptions = clause("WITH (")?.replace(/='([^',]*)'/g, "=$1");
+  const closing = [
+    heading,
+    storage.accessMethod && `USING ${storage.accessMethod}`,
+    reloptions,
+    storage.tablespace && `TABLESPACE ${storage.tablespace}`,
+  ].filter(Boolean);
+  lines.splice(end, last - end + 1, `${closing.join("\n")};`);
+  return lines.join("\n");
+}
+
+/** Constraint kinds in the order a live extraction lists them */
+const CONSTRAINT_ORDER = ["PRIMARY KEY", "UNIQUE", "FOREIGN KEY", "CHECK", "EXCLUDE"];
+
+/** Put the columns of a CREATE TABLE first, then its constraints by kind and name */
+function sortConstraints(ddl: string): string {
+  const table = tableLines(ddl);
+  if (!table) return ddl;
+  const { lines, start, end } = table;
+  const body = lines.slice(start + 1, end).map((l) => l.replace(/,$/, ""));
+  if (!body.every((l) => l.startsWith("    "))) return ddl;
+
+  const isConstraint = (l: string) => l.startsWith("    CONSTRAINT ");
+  const sortKey = (l: string): [number, string] => {
+    const [, name, ...definition] = l.trim().split(" ");
+    const kind = CONSTRAINT_ORDER.findIndex((k) => definition.join(" ").startsWith(k));
+    return [kind === -1 ? CONSTRAINT_ORDER.length : kind, name];
+  };
+  const constraints = body.filter(isConstraint).sort((a, b) => {
+    const [kindA, nameA] = sortKey(a);
+    const [kindB, nameB] = sortKey(b);
+    return kindA - kindB || (nameA < nameB ? -1 : nameA > nameB ? 1 : 0);
+  });
+  const sorted = [...body.filter((l) => !isConstraint(l)), ...constraints];
+  lines.splice(
+    start + 1,
+    end - start - 1,
+    ...sorted.map((l, i) => (i < sorted.length - 1 ? `${l},` : l))
+  );
+  return lines.join("\n");
+}
+
+/** Column name, default and NOT NULL of each column line of a CREATE TABLE */
+function columnClauses(
+  ddl: string
+): Map<string, { line: string; default: string | null; notNull: boolean }> {
+  const columns = new Map<string, { line: string; default: string | null; notNull: boolean }>();
+  const table = tableLines(ddl);
+  if (!table) return columns;
+  for (const raw of table.lines.slice(table.start + 1, table.end)) {
+    const line = raw.replace(/,$/, "");
+    if (line.startsWith("    CONSTRAINT ")) continue;
+    const name = line.trim().split(" ")[0];
+    const notNull = line.endsWith(" NOT NULL");
+    const match = line.replace(/ NOT NULL$/, "").match(/ DEFAULT (.+)$/);
+    columns.set(name, { line, default: match ? match[1] : null, notNull });
+  }
+  return columns;
+}
+
+/**
+ * Rewrite a partition's CREATE TABLE and ATTACH PARTITION as the single
+ * PARTITION OF statement a live extraction writes, keeping only the defaults,
+ * NOT NULLs and constraints that differ from the parent. Returns the statement
+ * and the DROP DEFAULT statements for defaults the partition does not have, or
+ * null when the CREATE TABLE cannot be read.
+ */
+function partitionOf(
+  ddl: string,
+  parentDdl: string,
+  attachment: PartitionAttachment
+): { create: string; columnAlters: string[] } | null {
+  const table = tableLines(ddl);
+  if (!table || !tableLines(parentDdl)) return null;
+  const { lines, start, end } = table;
+  const name = lines[start].replace(/^CREATE (?:UNLOGGED )?TABLE (\S+) \($/, "$1");
+  const parentColumns = columnClauses(parentDdl);
+
+  const columnAlters: string[] = [];
+  const colDefs: string[] = [];
+  for (const [column, clauses] of columnClauses(ddl)) {
+    if (/ GENERATED /.test(clauses.line)) continue;
+    const parent = parentColumns.get(column);
+    const parentDefault = parent ? parent.default : null;
+    const options: string[] = [];
+    // pg_dump writes SET DEFAULT NULL for a partition column without the parent's default
+    if (clauses.default === "NULL" && parentDefault !== null) {
+      columnAlters.push(`ALTER TABLE ${name} ALTER COLUMN ${column} DROP DEFAULT;`);
+    } else if (clauses.default !== null && clauses.default !== parentDefault) {
+      options.push(`DEFAULT ${clauses.default}`);
+    }
+    if (clauses.notNull && !parent?.notNull) options.push("NOT NULL");
+    if (options.length > 0) colDefs.push(`    ${column} WITH OPTIONS ${options.join(" ")}`);
+  }
+  const conDefs = lines
+    .slice(start + 1, end)
+    .map((l) => l.replace(/,$/, ""))
+    .filter((l) => l.startsWith("    CONSTRAINT "));
+  const body = [...colDefs, ...conDefs];
+
+  // Closing line and storage clauses, as closeTable left them
+  const [heading, ...storage] = lines.slice(end).join("\n").replace(/;$/, "").split("\n");
+  const subPartition = heading.slice(1);
+  const create = `${lines[start].replace(/ \($/, "")} PARTITION OF ${attachment.parent}`;
+  const clauses = [`${attachment.bound}${subPartition}`, ...storage];
+  const statement = [
+    body.length > 0 ? `${create} (\n${body.join(",\n")}\n)` : create,
+    ...clauses.map((l) => `    ${l}`),
+  ].join("\n");
+  return { create: `${statement};`, columnAlters };
+}
+
+/**
+ * Order the statements of a table file as a live extraction writes them:
+ * CREATE TABLE, column storage and statistics, row level security, owner,
+ * then column, table and constraint comments. Anything else follows in dump
+ * order.
+ */
+function layoutTable(statements: string[], columnAlters: string[] = []): string {
+  const [create, ...rest] = statements;
+  const take = (pattern: RegExp) => rest.filter((s) => pattern.test(s));
+  const alterColumn = /^ALTER TABLE \S+ ALTER COLUMN (\S+) SET (STORAGE|STATISTICS) /;
+  const columnOrder = [...columnClauses(create).keys()];
+  const columnKey = (s: string) => {
+    const [, column, setting] = s.match(alterColumn)!;
+    return columnOrder.indexOf(column) * 2 + (setting === "STORAGE" ? 0 : 1);
+  };
+  const byName = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+  const groups = [
+    [...columnAlters, ...take(alterColumn).sort((a, b) => columnKey(a) - columnKey(b))],
+    take(/^ALTER TABLE \S+ ENABLE ROW LEVEL SECURITY;$/),
+    take(/^ALTER TABLE \S+ FORCE ROW LEVEL SECURITY;$/),
+    take(/^ALTER TABLE \S+ OWNER TO /),
+    take(/^COMMENT ON COLUMN /),
+    take(/^COMMENT ON TABLE /),
+    take(/^COMMENT ON CONSTRAINT /).sort(byName),
+  ];
+  const placed = new Set(groups.flat());
+  const [alters, enable, force, ...others] = groups;
+
+  // Same separators as buildTableDdl: FORCE follows ENABLE without a blank line
+  const parts = [create];
+  if (alters.length > 0) parts.push(`\n${alters.join("\n")}`);
+  for (const statement of enable) parts.push(`\n${statement}`);
+  parts.push(...force);
+  for (const statement of [...others.flat(), ...rest.filter((s) => !placed.has(s))]) {
+    parts.push(`\n${statement}`);
+  }
+  return parts.join("\n");
+}
+
+// ─── Dump Extractor ───────────────────────────────────────────
+
+/**
+ * Splits a plain-format `pg_dump --schema-only` file into the same
+ * categories and file names as a live extraction, without a connection.
+ *
+ * Tables are written in the live extraction's layout: column defaults, identity
+ * columns and table constraints are folded into the CREATE TABLE statement,
+ * storage settings become clauses, partitions become PARTITION OF statements
+ * and ALTER TABLE ONLY is written as ALTER TABLE. Other statements keep
+ * pg_dump's formatting, and indexes of materialized views go into the view's
+ * file, as in a live extraction.
+ */
+export class DumpExtractor {
+  private dumpFile: string;
+  private writer: SqlFileWriter;
+  private filters: ExtractionFilters;
+  private options: ExtractionOptions;
+  /** Output files in dump order, keyed "category/name" */
+  private files = new Map<string, DumpFile>();
+  /** Objects by the label COMMENT and ACL entries use, keyed "schema|TYPE tag" */
+  private objects = new Map<string, DumpObject>();
+  /** Statements that can only run once every object exists, appended to the dump */
+  private deferredDdl: string[] = [];
+  /** Partition indexes (and the constraints they back) that come with their parent */
+  private attachedIndexes = new Set<string>();
+  /** Partitions by file key, rewritten as PARTITION OF their parent when written */
+  private attachments = new Map<string, PartitionAttachment>();
+  private skipped = new Map<string, number>();
+
+  constructor(
+    dumpFile: string,
+    writer: SqlFileWriter,
+    filters: ExtractionFilters = {},
+    options: ExtractionOptions = {}
+  ) {
+    this.dumpFile = dumpFile;
+    this.writer = writer;
+    this.filters = filters;
+    this.options = options;
+  }
+
+  /** Run extraction from the dump file */
+  async extractAll(): Promise<void> {
+    console.log(`\n📦 Extracting database structure from ${path.basename(this.dumpFile)}...\n`);
+
+    const content = await fs.promises.readFile(this.dumpFile, "utf-8");
+    if (content.startsWith("PGDMP")) {
+      throw new Error(
+        `${this.dumpFile} is a custom-format archive. Convert it first: pg_restore --schema-only -f dump.sql ${this.dumpFile}`
+      );
+    }
+    const entries = parseDump(content);
+    if (entries.length === 0) {
+      throw new Error(`No pg_dump entries found in ${this.dumpFile}`);
+    }
+
+    for (const entry of entries) {
+      if (entry.type === "INDEX ATTACH") {
+        const match = entry.ddl.match(/ATTACH PARTITION (\S+);/);
+        if (match) this.attachedIndexes.add(unquote(match[1]));
+      }
+    }
+
+    for (const entry of entries) {
+      if (entry.data || IGNORED_TYPES.includes(entry.type) || entry.type === "INDEX ATTACH") {
+        continue;
+      }
+      this.addEntry(entry);
+    }
+
+    // Write files in dump order, so the combined dump keeps pg_dump's dependency order
+    const allDdl: string[] = [];
+    const counts = new Map<string, number>();
+    for (const file of this.files.values()) {
+      const ddl = remapOwners(this.render(file), this.options.ownerMap);
+      this.writer.write(file.category, file.name, ddl);
+      allDdl.push(`-- [${file.category.toUpperCase()}] ${file.name}\n${ddl}`);
+      counts.set(file.category, (counts.get(file.category) || 0) + 1);
+    }
+    this.writer.writeFull([...allDdl, ...this.deferredDdl].join("\n\n"));
+
+    for (const [category, count] of counts) {
+      console.log(`  📄  ${category.padEnd(22)} ${count}`);
+    }
+    if (this.skipped.size > 0) {
+      const types = [...this.skipped].map(([type, count]) => `${type} (${count})`).join(", ");
+      console.log(`\n  ⚠️  Skipped unsupported entries: ${types}`);
+    }
+  }
+
+  // ─── Entries ────────────────────────────────────────────────────
+
+  private addEntry(entry: DumpEntry): void {
+    const schema = entry.schema;
+    if (entry.type === "SCHEMA" ? !this.shouldInclude(entry.name) : !this.shouldInclude(schema)) {
+      return;
+    }
+    const qualified = (name: string) => (schema ? `${schema}.${name}` : name);
+
+    switch (entry.type) {
+      case "TABLE": {
+        if (!this.shouldIncludeTable(qualified(entry.name))) return;
+        const storage = takeSessionStorage(entry);
+        entry.ddl = closeTable(entry.ddl, storage);
+        break;
+      }
+      case "SCHEMA":
+        // The public schema is created by initdb, so its entry only has a comment
+        if (entry.ddl === "") entry.ddl = `CREATE SCHEMA IF NOT EXISTS ${entry.name};`;
+        break;
+      case "SEQUENCE":
+        // Identity sequences belong to their column
+        if (entry.ddl.startsWith("ALTER TABLE")) return this.addIdentity(entry);
+        break;
+      case "SEQUENCE OWNED BY":
+        return this.addOwnedBy(entry);
+      case "DEFAULT":
+        return this.addDefault(entry);
+      case "CONSTRAINT":
+      case "FK CONSTRAINT":
+      case "CHECK CONSTRAINT":
+        return this.addConstraint(entry);
+      case "ROW SECURITY":
+        return this.appendTo(this.relation(schema, entry.name), entry.ddl);
+      case "TABLE ATTACH":
+        return this.addAttach(entry);
+      case "INDEX":
+        if (this.attachedIndexes.has(qualified(entry.name))) return;
+        return this.addIndex(entry);
+      case "PUBLICATION TABLE":
+      case "PUBLICATION TABLES IN SCHEMA":
+        return this.appendTo(this.files.get(`publications/${splitTag(entry.name)[0]}`), entry.ddl);
+      case "DATABASE":
+      case "DATABASE PROPERTIES":
+        return this.addDatabaseSettings(entry.ddl);
+      case "COMMENT":
+        return this.appendTo(this.resolve(schema, unquote(entry.name))?.file, entry.ddl, entry);
+      case "ACL":
+        return this.addAcl(entry);
+      case "DEFAULT ACL":
+        return this.addDefaultAcl(entry);
+    }
+
+    const category = OBJECT_CATEGORIES[entry.type];
+    if (!category) {
+      this.skip(entry);
+      return;
+    }
+    if (entry.ddl === "") return;
+
+    const file = this.file(category, this.objectName(entry));
+    file.parts.push(entry.ddl);
+    this.objects.set(`${schema}|${this.objectLabel(entry)}`, { type: entry.type, file });
+  }
+
+  /** File name a live extraction uses for the object */
+  private objectName(entry: DumpEntry): string {
+    const qualified = (name: string) => (entry.schema ? `${entry.schema}.${name}` : name);
+    const tag = entry.name;
+    switch (entry.type) {
+      case "FUNCTION":
+      case "PROCEDURE":
+      case "AGGREGATE": {
+        const name = tag.slice(0, tag.indexOf("("));
+        const args = identityArguments(entry.ddl, entry.type) || zeroArgs(entry);
+        return qualified(`${name}(${args})`);
+      }
+      case "CAST":
+        return tag.replace(/^CAST \((.*)\)$/, "$1");
+      case "OPERATOR": {
+        const arg = (kind: string) => entry.ddl.match(new RegExp(`^\\s+${kind} = (.+?),?$`, "m"));
+        const left = arg("LEFTARG")?.[1] || "NONE";
+        const right = arg("RIGHTARG")?.[1] || "NONE";
+        return `operator.${qualified(tag)}(${left}, ${right})`;
+      }
+      case "OPERATOR FAMILY":
+      case "OPERATOR CLASS": {
+        const [name, method] = tag.split(" USING ");
+        const kind = entry.type === "OPERATOR FAMILY" ? "family" : "class";
+        return `${kind}.${method}.${qualified(name)}`;
+      }
+      case "TEXT SEARCH PARSER":
+      case "TEXT SEARCH TEMPLATE":
+      case "TEXT SEARCH DICTIONARY":
+      case "TEXT SEARCH CONFIGURATION":
+        return `${entry.type.split(" ")[2].toLowerCase()}.${qualified(tag)}`;
+      case "USER MAPPING": {
+        const match = tag.match(/^USER MAPPING (.+) SERVER (.+)$/);
+        return match ? `${match[2]}.${match[1]}` : tag;
+      }
+      case "TRIGGER":
+      case "RULE":
+      case "POLICY":
+        return qualified(splitTag(tag).join("."));
+      default:
+        return qualified(tag);
+    }
+  }
+
+  /** Label COMMENT and ACL entries use for the object, e.g. "TRIGGER t ON users" */
+  private objectLabel(entry: DumpEntry): string {
+    switch (entry.type) {
+      case "TRIGGER":
+      case "RULE":
+      case "POLICY": {
+        const [table, name] = splitTag(entry.name);
+        return `${entry.type} ${name} ON ${table}`;
+      }
+      // The tag lists argument types only; labels use the identity arguments
+      case "FUNCTION":
+      case "PROCEDURE":
+      case "AGGREGATE": {
+        const name = entry.name.slice(0, entry.name.indexOf("("));
+        const args = identityArguments(entry.ddl, entry.type) || zeroArgs(entry);
+        return `${entry.type} ${name}(${args})`;
+      }
+      case "CAST":
+        return entry.name;
+      default:
+        return `${entry.type} ${entry.name}`;
+    }
+  }
+
+  private addIdentity(entry: DumpEntry): void {
+    const match = entry.ddl.match(
+      /^ALTER TABLE (?:ONLY )?\S+ ALTER COLUMN (\S+) ADD (GENERATED .+? AS IDENTITY) \(([\s\S]*)\);$/
+    );
+    const table = this.relation(entry.schema, this.identityTable(entry.ddl));
+    if (!match || !table) {
+      this.appendTo(table, entry.ddl);
+      return;
+    }
+    const options = match[3]
+      .trim()
+      .split(/\s*\n\s*/)
+      .join(" ");
+    this.foldOrAppend(table, entry.ddl, (ddl) =>
+      foldColumnClause(ddl, match[1], `${match[2]} (${options})`)
+    );
+  }
+
+  private identityTable(ddl: string): string {
+    const match = ddl.match(/^ALTER TABLE (?:ONLY )?(\S+)/);
+    return match ? unquote(match[1].slice(match[1].indexOf(".") + 1)) : "";
+  }
+
+  private addOwnedBy(entry: DumpEntry): void {
+    const file = this.files.get(`sequences/${entry.schema}.${entry.name}`);
+    if (!file) return;
+    file.parts.push(entry.ddl);
+    this.deferredDdl.push(entry.ddl);
+  }
+
+  private addDefault(entry: DumpEntry): void {
+    const [table] = splitTag(entry.name);
+    const file = this.relation(entry.schema, table);
+    const match = entry.ddl.match(
+      /^ALTER TABLE (?:ONLY )?\S+ ALTER COLUMN (\S+) SET DEFAULT ([\s\S]+);$/
+    );
+    if (!match || !file) {
+      this.appendTo(file, entry.ddl);
+      return;
+    }
+    this.foldOrAppend(file, entry.ddl, (ddl) =>
+      foldColumnClause(ddl, match[1], `DEFAULT ${match[2]}`)
+    );
+  }
+
+  private addAttach(entry: DumpEntry): void {
+    const file = this.relation(entry.schema, entry.name);
+    const match = entry.ddl.match(/^ALTER TABLE (?:ONLY )?(\S+) ATTACH PARTITION \S+ ([\s\S]+);$/);
+    if (!file || !match) {
+      this.appendTo(file, entry.ddl);
+      return;
+    }
+    this.attachments.set(`${file.category}/${file.name}`, {
+      parent: match[1],
+      bound: match[2],
+      ddl: entry.ddl,
+    });
+  }
+
+  private addConstraint(entry: DumpEntry): void {
+    const storage = takeSessionStorage(entry);
+    const [relation, name] = splitTag(entry.name);
+    const domain = entry.ddl.match(/^ALTER DOMAIN /);
+    const file = domain
+      ? this.files.get(`types/${entry.schema}.${relation}`)
+      : this.relation(entry.schema, relation);
+    if (!file) return;
+
+    // Unique and primary keys of partitions are attached to the parent's index
+    if (this.attachedIndexes.has(`${entry.schema}.${name}`)) return;
+
+    const label = domain
+      ? `CONSTRAINT ${name} ON DOMAIN ${relation}`
+      : `CONSTRAINT ${name} ON ${relation}`;
+    this.objects.set(`${entry.schema}|${label}`, { type: entry.type, file });
+
+    const match = entry.ddl.match(/^ALTER TABLE (?:ONLY )?\S+\s+ADD CONSTRAINT (\S+) ([\s\S]+);$/);
+    if (domain || !match) {
+      this.appendTo(file, entry.ddl);
+      return;
+    }
+    // USING INDEX TABLESPACE goes before DEFERRABLE, as pg_get_constraintdef writes it
+    const definition = storage.tablespace
+      ? match[2].replace(
+          /( (?:NOT )?DEFERRABLE.*)?$/,
+          ` USING INDEX TABLESPACE ${storage.tablespace}$1`
+        )
+      : match[2];
+    this.foldOrAppend(file, entry.ddl, (ddl) => foldConstraint(ddl, match[1], definition));
+  }
+
+  private addIndex(entry: DumpEntry): void {
+    const { tablespace } = takeSessionStorage(entry);
+    if (tablespace) {
+      const end = entry.ddl.indexOf(";");
+      const definition = entry.ddl.slice(0, end);
+      const rest = entry.ddl.slice(end + 1);
+      // TABLESPACE cannot follow the WHERE clause of a partial index
+      entry.ddl = / WHERE /.test(definition)
+        ? `${definition};\nALTER INDEX ${entry.schema}.${entry.name} SET TABLESPACE ${tablespace};${rest}`
+        : `${definition} TABLESPACE ${tablespace};${rest}`;
+    }
+    const match = entry.ddl.match(/ ON (?:ONLY )?(\S+) /);
+    const relation = match ? unquote(match[1]) : "";
+    const matview = this.files.get(`materialized_views/${relation}`);
+    if (matview) {
+      matview.parts.push(entry.ddl);
+      this.objects.set(`${entry.schema}|INDEX ${entry.name}`, { type: entry.type, file: matview });
+      return;
+    }
+    const file = this.file("indexes", `${entry.schema}.${entry.name}`);
+    file.parts.push(entry.ddl);
+    this.objects.set(`${entry.schema}|INDEX ${entry.name}`, { type: entry.type, file });
+  }
+
+  /**
+   * Owner and settings of the database (pg_dump --create). CREATE DATABASE
+   * depends on the target cluster and the session settings after \connect
+   * are not part of the schema, so only ALTER statements are kept.
+   */
+  private addDatabaseSettings(ddl: string): void {
+    const statements = ddl
+      .split("\n")
+      .filter((l) => /^ALTER (DATABASE|ROLE \S+ IN DATABASE) /.test(l));
+    if (statements.length === 0) return;
+    this.file("database_settings", "database").parts.push(statements.join("\n"));
+  }
+
+  private addAcl(entry: DumpEntry): void {
+    const label = unquote(entry.name);
+    const object = this.resolve(entry.schema, label);
+    if (!object) {
+      this.skip(entry);
+      return;
+    }
+    const kind =
+      PRIVILEGE_KINDS[object.file.category] || object.type.toLowerCase().replace(/ /g, "_");
+    this.file("privileges", `${kind}.${object.file.name}`).parts.push(entry.ddl);
+  }
+
+  private addDefaultAcl(entry: DumpEntry): void {
+    const key = `default.${entry.owner}${entry.schema ? `.${entry.schema}` : ""}`;
+    this.file("privileges", key).parts.push(entry.ddl);
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────
+
+  /** DDL of an output file; table files are laid out as a live extraction writes them */
+  private render(file: DumpFile): string {
+    const ddl = file.parts.join("\n\n").replace(/^ALTER TABLE ONLY /gm, "ALTER TABLE ");
+    if (file.category !== "tables") return ddl;
+
+    // pg_dump writes the ALTERs of a TABLE entry right after the CREATE, without a blank line
+    const [create, ...rest] = ddl.split(/(?<=;)\n+(?=[A-Z])/);
+    const attachment = this.attachments.get(`${file.category}/${file.name}`);
+    const parent = attachment && this.files.get(`tables/${unquote(attachment.parent)}`);
+    const partition =
+      attachment && parent ? partitionOf(create, parent.parts[0], attachment) : null;
+    if (partition) return layoutTable([partition.create, ...rest], partition.columnAlters);
+    if (attachment) rest.push(attachment.ddl.replace(/^ALTER TABLE ONLY /, "ALTER TABLE "));
+    return layoutTable([sortConstraints(create), ...rest]);
+  }
+
+  /** Object a COMMENT or ACL label refers to, e.g. "COLUMN users.id" or "TABLE users" */
+  private resolve(schema: string | null, label: string): DumpObject | undefined {
+    const column = label.match(/^COLUMN (.+)\.[^.]+$/);
+    const table = label.match(/^TABLE (.+)$/);
+    const relation = column?.[1] ?? table?.[1];
+    if (relation !== undefined) {
+      // ACLs of views and sequences are labelled TABLE / SEQUENCE alike
+      for (const type of RELATION_TYPES) {
+        const object = this.objects.get(`${schema}|${type} ${relation}`);
+        if (object) return object;
+      }
+    }
+    return this.objects.get(`${schema}|${label}`);
+  }
+
+  /** File of a table, view, materialized view or foreign table */
+  private relation(schema: string | null, name: string): DumpFile | undefined {
+    for (const type of RELATION_TYPES) {
+      const object = this.objects.get(`${schema}|${type} ${name}`);
+      if (object) return object.file;
+    }
+    return undefined;
+  }
+
+  private file(category: ObjectCategory, name: string): DumpFile {
+    const key = `${category}/${name}`;
+    let file = this.files.get(key);
+    if (!file) {
+      file = { category, name, parts: [] };
+      this.files.set(key, file);
+    }
+    return file;
+  }
+
+  /** Append a statement to an object file; entries whose object was filtered out are dropped */
+  private appendTo(file: DumpFile | undefined, ddl: string, entry?: DumpEntry): void {
+    if (file) {
+      file.parts.push(ddl);
+    } else if (entry) {
+      this.skip(entry);
+    }
+  }
+
+  /** Fold a statement into the file's CREATE TABLE, or append it when that is not possible */
+  private foldOrAppend(file: DumpFile, ddl: string, fold: (create: string) => string | null): void {
+    const folded = fold(file.parts[0]);
+    if (folded === null) {
+      file.parts.push(ddl);
+    } else {
+      file.parts[0] = folded;
+    }
+  }
+
+  private skip(entry: DumpEntry): void {
+    this.skipped.set(entry.type, (this.skipped.get(entry.type) || 0) + 1);
+  }
+
+  private shouldInclude(schema: string | null): boolean {
+    if (schema === null) return true;
+    if (this.filters.includeSchemas && this.filters.includeSchemas.length > 0) {
+      return this.filters.includeSchemas.includes(schema);
+    }
+    if (this.filters.excludeSchemas && this.filters.excludeSchemas.length > 0) {
+      return !this.filters.excludeSchemas.includes(schema);
+    }
+    return true;
+  }
+
+  private shouldIncludeTable(fullName: string): boolean {
+    if (this.filters.includeTables && this.filters.includeTables.length > 0) {
+      return this.filters.includeTables.includes(fullName);
+    }
+    if (this.filters.excludeTables && this.filters.excludeTables.length > 0) {
+      return !this.filters.excludeTables.includes(fullName);
+    }
+    return true;
+  }
+}
@@ -1,11 +1,15 @@
 import * as path from "path";
 const pkg = require("../package.json");
 import { program } from "commander";
-import { SqlFileWriter } from "./writer";
-import { DdlExtractor } from "./extractor";
+import { SqlFileWriter, ExtractionManifest, writeManifest } from "./writer";
+import { DdlExtractor, ExtractionOptions, PartitionMode } from "./extractor";
 import { DataExtractor } from "./data-extractor";
 import { JsonExporter } from "./json-exporter";
+import { GlobalsExtractor } from "./globals-extractor";
+import { DumpExtractor } from "./dump-extractor";
 import { loadRcConfig, mergeWithCliOptions } from "./rc-config";
+import { OwnerMap } from "./owners";
+import { WorkerPool, beginSnapshot, endSnapshot, openWorkerPool, closeWorkerPool } from "./pool";
 import { SnapshotManager, getObjectHashes } from "./snapshot";
 import { DbCliOptions, DbConnection, connectToDatabase, closeConnection, handleError } from "./cli-utils";
 
@@ -20,12 +24,24 @@ interface CliOptions extends DbCliOptions {
   // Data extraction
   withData?: string;
   maxRows?: string;
+  withSequenceValues?: boolean;
   // Format
   format?: string;
   // Incremental
   incremental?: boolean;
   // Progress
   progress?: boolean;
+  // Parallel extraction
+  jobs?: string;
+  // Partitioned tables
+  partitions?: string;
+  // Cluster globals
+  globals?: boolean;
+  withRolePasswords?: boolean;
+  // Owner remapping (config file only)
+  ownerMap?: OwnerMap;
+  // Offline extraction
+  fromDump?: string;
 }
 
 function parseArgs(): CliOptions {
@@ -48,23 +64,89 @@ function parseArgs(): CliOptions {
     // Data extraction options
     .option("--with-data <tables>", "Extract data from specified tables (comma-separated)")
     .option("--max-rows <number>", "Max rows to extract per table (default: 10000)")
+    .option("--with-sequence-values", "Write current sequence values as setval() calls to _sequence_values.sql")
     // Format options
     .option("--format <format>", "Output format: sql (default) or json")
     // Incremental
     .option("--incremental", "Only re-extract objects that changed since last run")
     // Progress
     .option("--progress", "Show progress bar during extraction")
+    // Parallel extraction
+    .option("--jobs <n>", "Split categories and tables over n parallel connections (default: 1)")
+    // Partitioned tables
+    .option("--partitions <mode>", "Partition output: separate (default), collapse into parent, or skip")
+    // Cluster globals
+    .option("--globals", "Also extract cluster globals (roles, memberships, tablespaces)")
+    .option("--with-role-passwords", "Include role password hashes (requires superuser)")
+    // Offline extraction
+    .option("--from-dump <file>", "Split a pg_dump --schema-only file instead of connecting to a database")
     .parse(process.argv);
 
-  const options = program.opts<CliOptions>();
+  return program.opts<CliOptions>();
+}
 
+/** Validate the options once the config file values are merged in */
+function validateOptions(options: CliOptions): void {
   // Validate format if provided
   if (options.format && !["sql", "json"].includes(options.format)) {
     console.error(`❌ Invalid format: "${options.format}". Use --format sql or --format json`);
     process.exit(1);
   }
 
-  return options;
+  // Validate partition mode if provided
+  if (options.partitions && !["separate", "collapse", "skip"].includes(options.partitions)) {
+    console.error(`❌ Invalid partition mode: "${options.partitions}". Use --partitions separate, collapse or skip`);
+    process.exit(1);
+  }
+
+  // Validate job count if provided
+  if (options.jobs !== undefined && !/^[1-9]\d*$/.test(options.jobs)) {
+    console.error(`❌ Invalid --jobs: "${options.jobs}". Must be a positive number`);
+    process.exit(1);
+  }
+
+  // Everything else needs a live connection
+  if (options.fromDump) {
+    const conflicting = [
+      options.format === "json" && "--format json",
+      options.incremental && "--incremental",
+      options.withData && "--with-data",
+      options.withSequenceValues && "--with-sequence-values",
+      options.globals && "--globals",
+      options.jobs && "--jobs",
+      // A dump always yields one file per partition
+      options.partitions !== undefined &&
+        options.partitions !== "separate" &&
+        `--partitions ${options.partitions}`,
+    ].filter(Boolean);
+    if (conflicting.length > 0) {
+      console.error(`❌ --from-dump cannot be combined with ${conflicting.join(", ")}`);
+      process.exit(1);
+    }
+  }
+}
+
+// ─── Summary ──────────────────────────────────────────────────────
+function printSummary(writer: SqlFileWriter, env: string, outputDir: string): void {
+  const summary = writer.getSummary();
+  const total = Object.values(summary).reduce((a, b) => a + b, 0);
+  const stats = writer.getChangeStats();
+
+  console.log("\n═══════════════════════════════════════════════════");
+  console.log(`  ✅ Done! Extracted ${total} objects into sql/${env}/`);
+  console.log("═══════════════════════════════════════════════════");
+  console.log(`\n  📁 ${outputDir}`);
+  console.log(`  📄 Full dump: sql/${env}/_full_dump.sql`);
+  console.log("\n  Change Summary:");
+  console.log(`    🆕 Created:   ${stats.created}`);
+  console.log(`    🔄 Updated:   ${stats.updated}`);
+  console.log(`    ✅ Unchanged: ${stats.unchanged}`);
+
+  if (stats.created === 0 && stats.updated === 0) {
+    console.log(`\n  🎉 No changes - database structure is unchanged!\n`);
+  } else {
+    console.log(`\n  Ready to commit to Git! 🎉\n`);
+  }
 }
 
 // ─── Main ─────────────────────────────────────────────────────────
@@ -76,6 +158,7 @@ async function main(): Promise<void> {
   const options = rcConfig
     ? (mergeWithCliOptions(rcConfig, cliOptions) as CliOptions)
     : cliOptions;
+  validateOptions(options);
 
   const env = options.env || "dev";
 
@@ -92,35 +175,73 @@ async function main(): Promise<void> {
   console.log(`  Output:      ${outputDir}`);
   console.log("═══════════════════════════════════════════════════");
 
+  // Prepare extraction filters
+  const filters = {
+    includeSchemas: options.schema ? options.schema.split(",").map((s) => s.trim()) : undefined,
+    includeTables: options.tables ? options.tables.split(",").map((t) => t.trim()) : undefined,
+    excludeSchemas: options.excludeSchema
+      ? options.excludeSchema.split(",").map((s) => s.trim())
+      : undefined,
+    excludeTables: options.excludeTables
+      ? options.excludeTables.split(",").map((t) => t.trim())
+      : undefined,
+  };
+
+  const extractionOptions: ExtractionOptions = {
+    partitions: options.partitions as PartitionMode | undefined,
+    ownerMap: options.ownerMap,
+    sequenceValues: !!options.withSequenceValues,
+  };
+
+  // Log filters if any are set
+  if (filters.includeSchemas || filters.includeTables || filters.excludeSchemas || filters.excludeTables) {
+    console.log("\n🔍 Filters:");
+    if (filters.includeSchemas) console.log(`   Include schemas: ${filters.includeSchemas.join(", ")}`);
+    if (filters.includeTables) console.log(`   Include tables:  ${filters.includeTables.join(", ")}`);
+    if (filters.excludeSchemas) console.log(`   Exclude schemas: ${filters.excludeSchemas.join(", ")}`);
+    if (filters.excludeTables) console.log(`   Exclude tables:  ${filters.excludeTables.join(", ")}`);
+  }
+
   let conn: DbConnection | undefined;
+  let workers: WorkerPool | undefined;
+  let inSnapshot = false;
   try {
+    // Offline mode: split a pg_dump file, no connection needed
+    if (options.fromDump) {
+      const writer = new SqlFileWriter(outputDir);
+      const dumpFile = path.resolve(options.fromDump);
+      const extractor = new DumpExtractor(dumpFile, writer, filters, extractionOptions);
+      await extractor.extractAll();
+      printSummary(writer, env, outputDir);
+      return;
+    }
+
     conn = await connectToDatabase(options);
 
+    // Every query below reads one snapshot, so the files match a single database state
+    const snapshotInfo = await beginSnapshot(conn.client);
+    inSnapshot = true;
+
     // Get db version for info
     const { rows } = await conn.client.query("SELECT version();");
-    console.log(`  DB: ${rows[0].version.split(",")[0]}\n`);
-
-    // Prepare extraction filters
-    const filters = {
-      includeSchemas: options.schema ? options.schema.split(",").map((s) => s.trim()) : undefined,
-      includeTables: options.tables ? options.tables.split(",").map((t) => t.trim()) : undefined,
-      excludeSchemas: options.excludeSchema
-        ? options.excludeSchema.split(",").map((s) => s.trim())
-        : undefined,
-      excludeTables: options.excludeTables
-        ? options.excludeTables.split(",").map((t) => t.trim())
-        : undefined,
-    };
+    console.log(`  DB: ${rows[0].version.split(",")[0]}`);
+    console.log(`  Snapshot: txid ${snapshotInfo.txid}, LSN ${snapshotInfo.lsn}\n`);
 
-    // Log filters if any are set
-    if (filters.includeSchemas || filters.includeTables || filters.excludeSchemas || filters.excludeTables) {
-      console.log("\n🔍 Filters:");
-      if (filters.includeSchemas) console.log(`   Include schemas: ${filters.includeSchemas.join(", ")}`);
-      if (filters.includeTables) console.log(`   Include tables:  ${filters.includeTables.join(", ")}`);
-      if (filters.excludeSchemas) console.log(`   Exclude schemas: ${filters.excludeSchemas.join(", ")}`);
-      if (filters.excludeTables) console.log(`   Exclude tables:  ${filters.excludeTables.join(", ")}`);
+    // Parallel workers read the snapshot exported by this connection
+    const jobs = options.jobs ? parseInt(options.jobs, 10) : 1;
+    if (jobs > 1) {
+      workers = await openWorkerPool(conn.client, conn.config, jobs);
+      extractionOptions.workers = workers;
+      console.log(`  ⚡ ${jobs} jobs sharing snapshot ${workers.snapshot}\n`);
     }
 
+    const manifest: ExtractionManifest = {
+      database: (conn.config.database as string) || "unknown",
+      extractedAt: new Date().toISOString(),
+      jobs,
+      ...snapshotInfo,
+    };
+
     // Incremental snapshot check
     if (options.incremental) {
       const snapshot = new SnapshotManager(outputDir);
@@ -137,6 +258,7 @@ async function main(): Promise<void> {
       if (changes.added.length === 0 && changes.modified.length === 0 && changes.removed.length === 0) {
         console.log("  🎉 No changes detected since last snapshot!\n");
         snapshot.save((conn.config.database as string) || "unknown", currentHashes);
+        writeManifest(outputDir, manifest);
         return;
       }
 
@@ -149,13 +271,19 @@ async function main(): Promise<void> {
       // but save the snapshot after
       const format = options.format || "sql";
       if (format === "json") {
-        const jsonExporter = new JsonExporter(conn.client, filters);
+        const jsonExporter = new JsonExporter(conn.client, filters, extractionOptions);
         const filepath = await jsonExporter.exportToFile(outputDir);
         console.log(`\n  📁 ${filepath}`);
       } else {
         const writer = new SqlFileWriter(outputDir);
-        const extractor = new DdlExtractor(conn.client, writer, filters);
+        const extractor = new DdlExtractor(conn.client, writer, filters, false, extractionOptions);
         await extractor.extractAll();
+        if (options.globals) {
+          const globals = new GlobalsExtractor(conn.client, writer, {
+            withPasswords: !!options.withRolePasswords,
+          });
+          await globals.extractAll();
+        }
 
         const summary = writer.getSummary();
         const total = Object.values(summary).reduce((a, b) => a + b, 0);
@@ -170,6 +298,7 @@ async function main(): Promise<void> {
       }
 
       snapshot.save((conn.config.database as string) || "unknown", currentHashes);
+      writeManifest(outputDir, manifest);
       console.log("  📸 Snapshot saved\n");
       return;
     }
@@ -178,8 +307,9 @@ async function main(): Promise<void> {
 
     if (format === "json") {
       // JSON export mode
-      const jsonExporter = new JsonExporter(conn.client, filters);
+      const jsonExporter = new JsonExporter(conn.client, filters, extractionOptions);
       const filepath = await jsonExporter.exportToFile(outputDir);
+      writeManifest(outputDir, manifest);
 
       console.log("\n═══════════════════════════════════════════════════");
       console.log(`  ✅ Done! Exported schema as JSON`);
@@ -188,9 +318,17 @@ async function main(): Promise<void> {
     } else {
       // SQL export mode (default)
       const writer = new SqlFileWriter(outputDir);
-      const extractor = new DdlExtractor(conn.client, writer, filters, !!options.progress);
+      const extractor = new DdlExtractor(conn.client, writer, filters, !!options.progress, extractionOptions);
       await extractor.extractAll();
 
+      // Extract cluster globals if requested
+      if (options.globals) {
+        const globals = new GlobalsExtractor(conn.client, writer, {
+          withPasswords: !!options.withRolePasswords,
+        });
+        await globals.extractAll();
+      }
+
       // Extract data if requested
       if (options.withData) {
         const dataTables = options.withData.split(",").map((t) => t.trim());
@@ -199,7 +337,7 @@ async function main(): Promise<void> {
           console.error(`❌ Invalid --max-rows: "${options.maxRows}". Must be between 1 and 1,000,000`);
           process.exit(1);
         }
-        const dataExtractor = new DataExtractor(conn.client);
+        const dataExtractor = new DataExtractor(conn.client, workers);
         await dataExtractor.extractData({
           tables: dataTables,
           maxRows,
@@ -207,31 +345,15 @@ async function main(): Promise<void> {
         });
       }
 
-      // Summary
-      const summary = writer.getSummary();
-      const total = Object.values(summary).reduce((a, b) => a + b, 0);
-      const stats = writer.getChangeStats();
-
-      console.log("\n═══════════════════════════════════════════════════");
-      console.log(`  ✅ Done! Extracted ${total} objects into sql/${env}/`);
-      console.log("═══════════════════════════════════════════════════");
-      console.log(`\n  📁 ${outputDir}`);
-      console.log(`  📄 Full dump: sql/${env}/_full_dump.sql`);
-      console.log("\n  Change Summary:");
-      console.log(`    🆕 Created:   ${stats.created}`);
-      console.log(`    🔄 Updated:   ${stats.updated}`);
-      console.log(`    ✅ Unchanged: ${stats.unchanged}`);
-
-      if (stats.created === 0 && stats.updated === 0) {
-        console.log(`\n  🎉 No changes - database structure is unchanged!\n`);
-      } else {
-        console.log(`\n  Ready to commit to Git! 🎉\n`);
-      }
+      writeManifest(outputDir, manifest);
+      printSummary(writer, env, outputDir);
     }
   } catch (err: any) {
     handleError(err);
     process.exit(1);
   } finally {
+    if (workers) await closeWorkerPool(workers);
+    if (conn && inSnapshot) await endSnapshot(conn.client);
     if (conn) await closeConnection(conn);
   }
 }
@@ -1,32 +1,87 @@
-import { Client } from "pg";
+import { ClientBase } from "pg";
 import { SqlFileWriter, ObjectCategory } from "./writer";
 import { ProgressBar } from "./progress";
+import { fetchPrivileges, formatPrivilege } from "./privileges";
+import { OwnerMap, mapOwner } from "./owners";
+import { formatSetting } from "./globals-extractor";
+import { WorkerPool, parallelWorkers, tryQuery } from "./pool";
 
 const EXCLUDED_SCHEMAS = `('pg_catalog', 'information_schema', 'pg_toast')`;
 
+/**
+ * SQL condition that skips objects created by an extension (pg_depend deptype 'e').
+ * They are recreated by CREATE EXTENSION and must not be extracted twice.
+ */
+export function notExtensionMember(catalog: string, oid: string): string {
+  return `NOT EXISTS (
+        SELECT 1 FROM pg_depend dep
+        WHERE dep.classid = '${catalog}'::regclass AND dep.objid = ${oid} AND dep.deptype = 'e'
+      )`;
+}
+
+// Option names whose values are secrets and must not be written to disk
+const SECRET_OPTION = /pass|secret|token|key/i;
+
+/**
+ * Render a catalog options array ("name=value" entries) as an OPTIONS (...) clause.
+ * Values of options matched by `redact` are replaced with a placeholder.
+ */
+function formatOptions(
+  options: string[] | null,
+  redact: (name: string) => boolean = () => false
+): string {
+  if (!options || options.length === 0) return "";
+  const items = options.map((option) => {
+    const eq = option.indexOf("=");
+    const name = option.slice(0, eq);
+    const value = redact(name) ? "********" : option.slice(eq + 1).replace(/'/g, "''");
+    return `${name} '${value}'`;
+  });
+  return `OPTIONS (${items.join(", ")})`;
+}
+
+/** COMMENT ON statement for an object description */
+function commentOn(target: string, description: string): string {
+  return `COMMENT ON ${target} IS '${description.replace(/'/g, "''")}';`;
+}
+
+/** Append the object's COMMENT ON statement to its DDL when it has a description */
+function withComment(ddl: string, target: string, description: string | null): string {
+  return description === null ? ddl : `${ddl}\n\n${commentOn(target, description)}`;
+}
+
 interface DdlObject {
   category: ObjectCategory;
   name: string;
   ddl: string;
 }
 
-interface ColumnTypeRow {
+interface ColumnRow {
+  relation: string;
+  column_name: string;
   data_type: string;
-  udt_name: string;
-  character_maximum_length: number | null;
-  numeric_precision: number | null;
-  numeric_scale: number | null;
+  not_null: boolean;
+  column_default: string | null;
+  generated: string;
+  generation_expr: string | null;
+  identity: string;
+  identity_options: string | null;
+  collation: string | null;
+  storage: string | null;
+  compression: string | null;
+  statistics: number | null;
+  /** Default and NOT NULL of the same column in the parent, for partitions */
+  parent_default: string | null;
+  parent_not_null: boolean | null;
 }
 
 interface TriggerRow {
   schema_name: string;
+  table_name: string;
   trigger_name: string;
-  event_object_schema: string;
-  event_object_table: string;
-  action_statement: string;
-  action_timing: string;
-  event_manipulation: string;
-  action_orientation: string;
+  definition: string;
+  enabled: string;
+  description: string | null;
 }
 
 export interface ExtractionFilters {
@@ -36,61 +91,331 @@ export interface ExtractionFilters {
   excludeTables?: string[];
 }
 
+/**
+ * How table partitions are written:
+ * - separate: one file per partition (CREATE TABLE ... PARTITION OF ...)
+ * - collapse: partitions are appended to their parent's file
+ * - skip:     partitions are not extracted, only the partitioned parent
+ */
+export type PartitionMode = "separate" | "collapse" | "skip";
+
+export interface ExtractionOptions {
+  partitions?: PartitionMode;
+  /** Rewrite (or, mapped to null, leave out) object owners */
+  ownerMap?: OwnerMap;
+  /** Also write current sequence values as setval() calls to _sequence_values.sql */
+  sequenceValues?: boolean;
+  /** Spread the work across these snapshot-sharing connections (--jobs) */
+  workers?: WorkerPool;
+}
+
+interface TableRow {
+  schemaname: string;
+  tablename: string;
+  partition_key: string | null;
+  parent_schema: string | null;
+  parent_table: string | null;
+  partition_bound: string | null;
+  description: string | null;
+  owner: string;
+  unlogged: boolean;
+  access_method: string | null;
+  reloptions: string | null;
+  tablespace: string | null;
+  inherits: string[] | null;
+  row_security: boolean;
+  force_row_security: boolean;
+}
+
+interface OperatorFamilyRow {
+  oid: number;
+  schema_name: string;
+  family_name: string;
+  access_method: string;
+  owner: string;
+  /** Created by CREATE OPERATOR CLASS along with the class of the same name */
+  implicit: boolean;
+}
+
+interface ConstraintRow {
+  relation: string;
+  conname: string;
+  definition: string;
+}
+
+interface ConstraintCommentRow {
+  relation: string;
+  conname: string;
+  description: string;
+}
+
+/** Catalog rows of all extracted tables, fetched once and keyed by "schema.table" */
+interface TableCatalog {
+  columns: Map<string, ColumnRow[]>;
+  constraints: Map<string, ConstraintRow[]>;
+  /** COMMENT ON COLUMN statements */
+  columnComments: Map<string, string[]>;
+  /** COMMENT ON CONSTRAINT statements */
+  constraintComments: Map<string, string[]>;
+}
+
+/** Group rows by their "schema.relation" name, keeping query order */
+function groupByRelation<T extends { relation: string }>(rows: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    if (!groups.has(row.relation)) groups.set(row.relation, []);
+    groups.get(row.relation)!.push(row);
+  }
+  return groups;
+}
+
+interface IndexRow {
+  schema_name: string;
+  index_name: string;
+  table_name: string;
+  definition: string;
+  description: string | null;
+  tablespace: string | null;
+  partial: boolean;
+}
+
+/** USING / WITH (...) / TABLESPACE clauses of a table, in CREATE TABLE order */
+function storageClauses(
+  tbl: Pick<TableRow, "access_method" | "reloptions" | "tablespace">
+): string[] {
+  const clauses: string[] = [];
+  if (tbl.access_method) clauses.push(`USING ${tbl.access_method}`);
+  if (tbl.reloptions) clauses.push(`WITH (${tbl.reloptions})`);
+  if (tbl.tablespace) clauses.push(`TABLESPACE ${tbl.tablespace}`);
+  return clauses;
+}
+
+/** CREATE INDEX statement with its tablespace and comment */
+function indexDdl(row: IndexRow): string {
+  const name = `${row.schema_name}.${row.index_name}`;
+  let definition = `${row.definition};`;
+  if (row.tablespace && row.partial) {
+    // TABLESPACE would have to go before the WHERE clause of pg_get_indexdef
+    definition += `\nALTER INDEX ${name} SET TABLESPACE ${row.tablespace};`;
+  } else if (row.tablespace) {
+    definition = `${row.definition} TABLESPACE ${row.tablespace};`;
+  }
+  return withComment(definition, `INDEX ${name}`, row.description);
+}
+
+/** One extraction category, run on the extractor it is given */
+interface ExtractionStep {
+  name: string;
+  fn: (e: DdlExtractor) => Promise<void>;
+}
+
 export class DdlExtractor {
-  private client: Client;
+  private client: ClientBase;
   private writer: SqlFileWriter;
   private allDdl: string[] = [];
+  /** Statements that can only run once every object exists, appended to the dump */
+  private deferredDdl: string[] = [];
   private filters: ExtractionFilters;
   private showProgress: boolean;
-
-  constructor(client: Client, writer: SqlFileWriter, filters: ExtractionFilters = {}, showProgress: boolean = false) {
+  private options: ExtractionOptions;
+  private serverVersion: number | null = null;
+  /** Log lines held back while running as a worker, printed in step order */
+  private output: string[] | null = null;
+
+  constructor(
+    client: ClientBase,
+    writer: SqlFileWriter,
+    filters: ExtractionFilters = {},
+    showProgress: boolean = false,
+    options: ExtractionOptions = {}
+  ) {
     this.client = client;
     this.writer = writer;
     this.filters = filters;
     this.showProgress = showProgress;
+    this.options = options;
   }
 
   /** Run full extraction */
   async extractAll(): Promise<void> {
     console.log("\n📦 Extracting database structure...\n");
 
-    const steps = [
-      { name: "schemas", fn: () => this.extractSchemas() },
-      { name: "types", fn: () => this.extractTypes() },
-      { name: "sequences", fn: () => this.extractSequences() },
-      { name: "tables", fn: () => this.extractTables() },
-      { name: "views", fn: () => this.extractViews() },
-      { name: "materialized_views", fn: () => this.extractMaterializedViews() },
-      { name: "functions", fn: () => this.extractFunctions() },
-      { name: "triggers", fn: () => this.extractTriggers() },
-      { name: "indexes", fn: () => this.extractIndexes() },
+    const steps: ExtractionStep[] = [
+      { name: "database_settings", fn: (e) => e.extractDatabaseSettings() },
+      { name: "extensions", fn: (e) => e.extractExtensions() },
+      { name: "foreign_data_wrappers", fn: (e) => e.extractForeignDataWrappers() },
+      { name: "foreign_servers", fn: (e) => e.extractForeignServers() },
+      { name: "user_mappings", fn: (e) => e.extractUserMappings() },
+      { name: "schemas", fn: (e) => e.extractSchemas() },
+      { name: "collations", fn: (e) => e.extractCollations() },
+      { name: "types", fn: (e) => e.extractTypes() },
+      { name: "sequences", fn: (e) => e.extractSequences() },
+      { name: "tables", fn: (e) => e.extractTables() },
+      { name: "foreign_tables", fn: (e) => e.extractForeignTables() },
+      { name: "views", fn: (e) => e.extractViews() },
+      { name: "materialized_views", fn: (e) => e.extractMaterializedViews() },
+      { name: "functions", fn: (e) => e.extractFunctions() },
+      { name: "procedures", fn: (e) => e.extractProcedures() },
+      { name: "aggregates", fn: (e) => e.extractAggregates() },
+      { name: "operators", fn: (e) => e.extractOperators() },
+      { name: "casts", fn: (e) => e.extractCasts() },
+      { name: "text_search", fn: (e) => e.extractTextSearch() },
+      { name: "triggers", fn: (e) => e.extractTriggers() },
+      { name: "event_triggers", fn: (e) => e.extractEventTriggers() },
+      { name: "rules", fn: (e) => e.extractRules() },
+      { name: "indexes", fn: (e) => e.extractIndexes() },
+      { name: "statistics", fn: (e) => e.extractStatistics() },
+      { name: "policies", fn: (e) => e.extractPolicies() },
+      { name: "privileges", fn: (e) => e.extractPrivileges() },
+      { name: "publications", fn: (e) => e.extractPublications() },
+      { name: "subscriptions", fn: (e) => e.extractSubscriptions() },
+      { name: "partman_configs", fn: (e) => e.extractPartmanConfigs() },
+      { name: "cron_jobs", fn: (e) => e.extractCronJobs() },
     ];
 
-    if (this.showProgress) {
-      const bar = new ProgressBar(steps.length, "Extracting...");
-      for (const step of steps) {
-        await step.fn();
-        bar.tick(step.name);
-      }
-      bar.complete("Extraction complete");
+    const bar = this.showProgress ? new ProgressBar(steps.length, "Extracting...") : null;
+    if (this.options.workers) {
+      await this.runOnWorkers(this.options.workers, steps, bar);
     } else {
       for (const step of steps) {
-        await step.fn();
+        await step.fn(this);
+        bar?.tick(step.name);
       }
     }
+    bar?.complete("Extraction complete");
 
     // Write combined dump
-    this.writer.writeFull(this.allDdl.join("\n\n"));
+    this.writer.writeFull([...this.allDdl, ...this.deferredDdl].join("\n\n"));
+  }
+
+  /**
+   * Run each step on its own extractor over a worker connection. Files and
+   * log lines of a step are independent of the others; the combined dump is
+   * assembled in step order, so it does not depend on the number of workers.
+   */
+  private async runOnWorkers(
+    workers: WorkerPool,
+    steps: ExtractionStep[],
+    bar: ProgressBar | null
+  ): Promise<void> {
+    const tasks = steps.map((step) => async (client: ClientBase) => {
+      const worker = new DdlExtractor(client, this.writer, this.filters, false, this.options);
+      worker.output = [];
+      await step.fn(worker);
+      bar?.tick(step.name);
+      return worker;
+    });
+
+    for (const worker of await parallelWorkers(workers, tasks)) {
+      worker.output!.forEach((line) => console.log(line));
+      this.allDdl.push(...worker.allDdl);
+      this.deferredDdl.push(...worker.deferredDdl);
+    }
+  }
+
+  // ─── DATABASE SETTINGS ──────────────────────────────────────────
+
+  private async extractDatabaseSettings(): Promise<void> {
+    const version = await this.getServerVersion();
+    const { rows } = await this.client.query(`
+      SELECT
+        d.datname,
+        pg_encoding_to_char(d.encoding) AS encoding,
+        ${version >= 150000 ? "d.datlocprovider" : "'c'"} AS locale_provider,
+        d.datcollate,
+        d.datctype,
+        d.datallowconn,
+        d.datconnlimit,
+        d.datistemplate,
+        t.spcname AS tablespace,
+        pg_get_userbyid(d.datdba) AS owner
+      FROM pg_database d
+      JOIN pg_tablespace t ON t.oid = d.dattablespace
+      WHERE d.datname = current_database();
+    `);
+    const db = rows[0];
+
+    // Settings for the whole database first, then per-role ones
+    const { rows: settings } = await this.client.query(`
+      SELECT r.rolname, unnest(s.setconfig) AS config
+      FROM pg_db_role_setting s
+      LEFT JOIN pg_roles r ON r.oid = s.setrole
+      WHERE s.setdatabase = (SELECT oid FROM pg_database WHERE datname = current_database())
+      ORDER BY r.rolname NULLS FIRST, config;
+    `);
+
+    const providers: Record<string, string> = { c: "libc", i: "icu", b: "builtin" };
+    const options = [
+      `ALLOW_CONNECTIONS ${db.datallowconn}`,
+      `CONNECTION LIMIT ${db.datconnlimit}`,
+      `IS_TEMPLATE ${db.datistemplate}`,
+    ];
+    const parts = [
+      `ALTER DATABASE ${db.datname} WITH ${options.join(" ")};`,
+      // Encoding and locale can only be chosen at CREATE DATABASE time
+      `-- ENCODING '${db.encoding}' LOCALE_PROVIDER ${providers[db.locale_provider]} ` +
+        `LC_COLLATE '${db.datcollate}' LC_CTYPE '${db.datctype}'`,
+      // Fails while connected to the database, so it is only recorded
+      `-- ALTER DATABASE ${db.datname} SET TABLESPACE ${db.tablespace};`,
+    ];
+    if (settings.length > 0) parts.push("");
+    for (const row of settings) {
+      const target = row.rolname ? `ROLE ${row.rolname} IN DATABASE` : "DATABASE";
+      parts.push(`ALTER ${target} ${db.datname} ${formatSetting(row.config)};`);
+    }
+
+    const ddl = this.withOwner(parts.join("\n"), `DATABASE ${db.datname}`, db.owner);
+    this.save("database_settings", "database", ddl);
+    this.log("database_settings", settings.length);
+  }
+
+  // ─── EXTENSIONS ─────────────────────────────────────────────────
+
+  private async extractExtensions(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT
+        e.extname AS extension_name,
+        quote_ident(e.extname) AS quoted_name,
+        n.nspname AS schema_name,
+        quote_ident(n.nspname) AS quoted_schema,
+        e.extversion AS version
+      FROM pg_extension e
+      JOIN pg_namespace n ON n.oid = e.extnamespace
+      ORDER BY e.extname;
+    `);
+
+    let count = 0;
+    for (const row of rows) {
+      if (!this.shouldIncludeSchema(row.schema_name)) {
+        continue;
+      }
+      // Extensions come first in the dump, so make sure their schema exists.
+      // System schemas (pg_catalog for plpgsql) always exist and cannot be created.
+      const parts: string[] = [];
+      if (row.schema_name !== "public" && !row.schema_name.startsWith("pg_")) {
+        parts.push(`CREATE SCHEMA IF NOT EXISTS ${row.quoted_schema};`);
+      }
+      parts.push(
+        `CREATE EXTENSION IF NOT EXISTS ${row.quoted_name} SCHEMA ${row.quoted_schema} VERSION '${row.version}';`
+      );
+      this.save("extensions", row.extension_name, parts.join("\n"));
+      count++;
+    }
+    this.log("extensions", count);
   }
 
   // ─── SCHEMAS ────────────────────────────────────────────────────
 
   private async extractSchemas(): Promise<void> {
     const { rows } = await this.client.query(`
-      SELECT nspname AS schema_name
+      SELECT
+        nspname AS schema_name,
+        obj_description(oid, 'pg_namespace') AS description,
+        pg_get_userbyid(nspowner) AS owner
       FROM pg_namespace
       WHERE nspname NOT LIKE 'pg_%'
         AND nspname != 'information_schema'
+        AND ${notExtensionMember("pg_namespace", "pg_namespace.oid")}
       ORDER BY nspname;
     `);
 
@@ -100,13 +425,15 @@ export class DdlExtractor {
         continue;
       }
       const ddl = `CREATE SCHEMA IF NOT EXISTS ${row.schema_name};`;
-      this.save("schemas", row.schema_name, ddl);
+      const target = `SCHEMA ${row.schema_name}`;
+      const withOwner = this.withOwner(ddl, target, row.owner);
+      this.save("schemas", row.schema_name, withComment(withOwner, target, row.description));
       count++;
     }
     this.log("schemas", count);
   }
 
-  // ─── CUSTOM TYPES (enum + composite) ────────────────────────────
+  // ─── CUSTOM TYPES (enum + domain + range + composite) ───────────
 
   private async extractTypes(): Promise<void> {
     // Enum types
@@ -114,12 +441,15 @@ export class DdlExtractor {
       SELECT
         n.nspname AS schema_name,
         t.typname AS type_name,
-        string_agg(e.enumlabel, '||' ORDER BY e.enumsortorder) AS labels
+        string_agg(e.enumlabel, '||' ORDER BY e.enumsortorder) AS labels,
+        obj_description(t.oid, 'pg_type') AS description,
+        pg_get_userbyid(t.typowner) AS owner
       FROM pg_type t
       JOIN pg_namespace n ON n.oid = t.typnamespace
       JOIN pg_enum e ON e.enumtypid = t.oid
       WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
-      GROUP BY n.nspname, t.typname
+        AND ${notExtensionMember("pg_type", "t.oid")}
+      GROUP BY n.nspname, t.typname, t.oid, t.typowner
       ORDER BY n.nspname, t.typname;
     `);
 
@@ -132,11 +462,16 @@ export class DdlExtractor {
         .split("||")
         .map((l: string) => `    '${l}'`)
         .join(",\n");
-      const ddl = `CREATE TYPE ${row.schema_name}.${row.type_name} AS ENUM (\n${labels}\n);`;
-      this.save("types", `${row.schema_name}.${row.type_name}`, ddl);
+      const name = `${row.schema_name}.${row.type_name}`;
+      const ddl = `CREATE TYPE ${name} AS ENUM (\n${labels}\n);`;
+      const withOwner = this.withOwner(ddl, `TYPE ${name}`, row.owner);
+      this.save("types", name, withComment(withOwner, `TYPE ${name}`, row.description));
       count++;
     }
 
+    count += await this.extractDomains();
+    count += await this.extractRangeTypes();
+
     // Composite types
     const { rows: composites } = await this.client.query(`
       SELECT
@@ -145,7 +480,9 @@ export class DdlExtractor {
         string_agg(
           a.attname || ' ' || pg_catalog.format_type(a.atttypid, a.atttypmod),
           ', ' ORDER BY a.attnum
-        ) AS attributes
+        ) AS attributes,
+        obj_description(t.oid, 'pg_type') AS description,
+        pg_get_userbyid(t.typowner) AS owner
       FROM pg_type t
       JOIN pg_namespace n ON n.oid = t.typnamespace
       JOIN pg_class c ON c.oid = t.typrelid
@@ -153,7 +490,8 @@ export class DdlExtractor {
       WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
         AND t.typtype = 'c'
         AND c.relkind = 'c'
-      GROUP BY n.nspname, t.typname
+        AND ${notExtensionMember("pg_type", "t.oid")}
+      GROUP BY n.nspname, t.typname, t.oid, t.typowner
       ORDER BY n.nspname, t.typname;
     `);
 
@@ -161,29 +499,175 @@ export class DdlExtractor {
       if (!this.shouldIncludeSchema(row.schema_name)) {
         continue;
       }
-      const ddl = `CREATE TYPE ${row.schema_name}.${row.type_name} AS (\n    ${row.attributes}\n);`;
-      this.save("types", `${row.schema_name}.${row.type_name}`, ddl);
+      const name = `${row.schema_name}.${row.type_name}`;
+      const ddl = this.withOwner(
+        `CREATE TYPE ${name} AS (\n    ${row.attributes}\n);`,
+        `TYPE ${name}`,
+        row.owner
+      );
+      this.save("types", name, withComment(ddl, `TYPE ${name}`, row.description));
       count++;
     }
 
     this.log("types", count);
   }
 
+  private async extractDomains(): Promise<number> {
+    const { rows: domains } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        t.typname AS type_name,
+        pg_catalog.format_type(t.typbasetype, t.typtypmod) AS base_type,
+        CASE WHEN t.typcollation <> bt.typcollation
+          THEN quote_ident(cn.nspname) || '.' || quote_ident(co.collname)
+        END AS collation,
+        t.typdefault AS default_value,
+        t.typnotnull AS not_null,
+        obj_description(t.oid, 'pg_type') AS description,
+        pg_get_userbyid(t.typowner) AS owner
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      JOIN pg_type bt ON bt.oid = t.typbasetype
+      LEFT JOIN pg_collation co ON co.oid = t.typcollation
+      LEFT JOIN pg_namespace cn ON cn.oid = co.collnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND t.typtype = 'd'
+        AND ${notExtensionMember("pg_type", "t.oid")}
+      ORDER BY n.nspname, t.typname;
+    `);
+
+    // Named CHECK constraints (NOT NULL is carried by typnotnull)
+    const { rows: constraints } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        t.typname AS type_name,
+        con.conname,
+        pg_get_constraintdef(con.oid) AS definition,
+        obj_description(con.oid, 'pg_constraint') AS description
+      FROM pg_constraint con
+      JOIN pg_type t ON t.oid = con.contypid
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE con.contype = 'c'
+        AND n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+      ORDER BY con.conname;
+    `);
+
+    let count = 0;
+    for (const row of domains) {
+      if (!this.shouldIncludeSchema(row.schema_name)) {
+        continue;
+      }
+      const name = `${row.schema_name}.${row.type_name}`;
+      const lines = [`CREATE DOMAIN ${name} AS ${row.base_type}`];
+      if (row.collation) lines.push(`    COLLATE ${row.collation}`);
+      if (row.default_value !== null) lines.push(`    DEFAULT ${row.default_value}`);
+      if (row.not_null) lines.push("    NOT NULL");
+      const comments: string[] = [];
+      for (const con of constraints) {
+        if (con.schema_name === row.schema_name && con.type_name === row.type_name) {
+          lines.push(`    CONSTRAINT ${con.conname} ${con.definition}`);
+          if (con.description !== null) {
+            const target = `CONSTRAINT ${con.conname} ON DOMAIN ${name}`;
+            comments.push(commentOn(target, con.description));
+          }
+        }
+      }
+      const withOwner = this.withOwner(lines.join("\n") + ";", `DOMAIN ${name}`, row.owner);
+      let ddl = withComment(withOwner, `DOMAIN ${name}`, row.description);
+      if (comments.length > 0) ddl += `\n${comments.join("\n")}`;
+      this.save("types", name, ddl);
+      count++;
+    }
+    return count;
+  }
+
+  private async extractRangeTypes(): Promise<number> {
+    const { rows } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        t.typname AS type_name,
+        pg_catalog.format_type(r.rngsubtype, NULL) AS subtype,
+        CASE WHEN NOT opc.opcdefault
+          THEN quote_ident(opn.nspname) || '.' || quote_ident(opc.opcname)
+        END AS subtype_opclass,
+        CASE WHEN r.rngcollation <> 0 AND r.rngcollation <> st.typcollation
+          THEN quote_ident(cn.nspname) || '.' || quote_ident(co.collname)
+        END AS collation,
+        CASE WHEN r.rngcanonical::oid <> 0 THEN r.rngcanonical::regproc::text END AS canonical,
+        CASE WHEN r.rngsubdiff::oid <> 0 THEN r.rngsubdiff::regproc::text END AS subtype_diff,
+        obj_description(t.oid, 'pg_type') AS description,
+        pg_get_userbyid(t.typowner) AS owner
+      FROM pg_range r
+      JOIN pg_type t ON t.oid = r.rngtypid
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      JOIN pg_type st ON st.oid = r.rngsubtype
+      JOIN pg_opclass opc ON opc.oid = r.rngsubopc
+      JOIN pg_namespace opn ON opn.oid = opc.opcnamespace
+      LEFT JOIN pg_collation co ON co.oid = r.rngcollation
+      LEFT JOIN pg_namespace cn ON cn.oid = co.collnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_type", "t.oid")}
+      ORDER BY n.nspname, t.typname;
+    `);
+
+    let count = 0;
+    for (const row of rows) {
+      if (!this.shouldIncludeSchema(row.schema_name)) {
+        continue;
+      }
+      const options = [`SUBTYPE = ${row.subtype}`];
+      if (row.subtype_opclass) options.push(`SUBTYPE_OPCLASS = ${row.subtype_opclass}`);
+      if (row.collation) options.push(`COLLATION = ${row.collation}`);
+      if (row.canonical) options.push(`CANONICAL = ${row.canonical}`);
+      if (row.subtype_diff) options.push(`SUBTYPE_DIFF = ${row.subtype_diff}`);
+      const name = `${row.schema_name}.${row.type_name}`;
+      const ddl = this.withOwner(
+        `CREATE TYPE ${name} AS RANGE (\n    ${options.join(",\n    ")}\n);`,
+        `TYPE ${name}`,
+        row.owner
+      );
+      this.save("types", name, withComment(ddl, `TYPE ${name}`, row.description));
+      count++;
+    }
+    return count;
+  }
+
   // ─── SEQUENCES ──────────────────────────────────────────────────
 
   private async extractSequences(): Promise<void> {
     const { rows } = await this.client.query(`
       SELECT
-        s.sequence_schema AS schema_name,
-        s.sequence_name,
-        s.start_value,
-        s.minimum_value,
-        s.maximum_value,
-        s.increment,
-        s.cycle_option
-      FROM information_schema.sequences s
-      WHERE s.sequence_schema NOT IN ${EXCLUDED_SCHEMAS}
-      ORDER BY s.sequence_schema, s.sequence_name;
+        n.nspname AS schema_name,
+        c.relname AS sequence_name,
+        format_type(s.seqtypid, NULL) AS data_type,
+        s.seqstart AS start_value,
+        s.seqmin AS minimum_value,
+        s.seqmax AS maximum_value,
+        s.seqincrement AS increment,
+        s.seqcache AS cache_size,
+        s.seqcycle AS cycle,
+        obj_description(c.oid, 'pg_class') AS description,
+        (
+          SELECT tn.nspname || '.' || tc.relname || '.' || a.attname
+          FROM pg_depend d
+          JOIN pg_class tc ON tc.oid = d.refobjid
+          JOIN pg_namespace tn ON tn.oid = tc.relnamespace
+          JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+          WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid
+            AND d.refclassid = 'pg_class'::regclass AND d.deptype = 'a'
+        ) AS owned_by,
+        pg_get_userbyid(c.relowner) AS owner
+      FROM pg_sequence s
+      JOIN pg_class c ON c.oid = s.seqrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "c.oid")}
+        -- Identity sequences are part of their column's definition
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_depend d
+          WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'i'
+        )
+      ORDER BY n.nspname, c.relname;
     `);
 
     let count = 0;
@@ -191,247 +675,591 @@ export class DdlExtractor {
       if (!this.shouldIncludeSchema(row.schema_name)) {
         continue;
       }
-      const cycle = row.cycle_option === "YES" ? "CYCLE" : "NO CYCLE";
+      const name = `${row.schema_name}.${row.sequence_name}`;
       const ddl = [
-        `CREATE SEQUENCE ${row.schema_name}.${row.sequence_name}`,
+        `CREATE SEQUENCE ${name}`,
+        `    AS ${row.data_type}`,
         `    INCREMENT BY ${row.increment}`,
         `    MINVALUE ${row.minimum_value}`,
         `    MAXVALUE ${row.maximum_value}`,
         `    START WITH ${row.start_value}`,
-        `    ${cycle};`,
+        `    CACHE ${row.cache_size}`,
+        `    ${row.cycle ? "CYCLE" : "NO CYCLE"};`,
       ].join("\n");
-      this.save("sequences", `${row.schema_name}.${row.sequence_name}`, ddl);
+
+      // The owner is set before OWNED BY, as pg_dump does: once linked, the sequence
+      // follows its table's owner, but the link only exists after every table
+      const withOwner = this.withOwner(ddl, `SEQUENCE ${name}`, row.owner);
+      const withComments = withComment(withOwner, `SEQUENCE ${name}`, row.description);
+      const ownedBy = row.owned_by ? `ALTER SEQUENCE ${name} OWNED BY ${row.owned_by};` : null;
+
+      // OWNED BY needs the table, so the dump sets it once all tables exist
+      const fileDdl = ownedBy ? `${withComments}\n\n${ownedBy}` : withComments;
+      this.writer.write("sequences", name, fileDdl);
+      this.allDdl.push(`-- [SEQUENCES] ${name}\n${withComments}`);
+      if (ownedBy) this.deferredDdl.push(ownedBy);
       count++;
     }
     this.log("sequences", count);
-  }
 
-  // ─── TABLES (full DDL with constraints) ─────────────────────────
+    if (this.options.sequenceValues) {
+      await this.extractSequenceValues();
+    }
+  }
 
-  private async extractTables(): Promise<void> {
-    const { rows: tables } = await this.client.query(`
-      SELECT schemaname, tablename
-      FROM pg_tables
+  /** Current sequence values (identity sequences included) as setval() calls */
+  private async extractSequenceValues(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT schemaname AS schema_name, sequencename AS sequence_name, last_value
+      FROM pg_sequences
       WHERE schemaname NOT IN ${EXCLUDED_SCHEMAS}
-      ORDER BY schemaname, tablename;
+        AND last_value IS NOT NULL
+      ORDER BY schemaname, sequencename;
     `);
 
-    let count = 0;
-    for (const tbl of tables) {
-      if (!this.shouldIncludeTable(tbl.schemaname, tbl.tablename)) {
-        continue;
-      }
-      const ddl = await this.buildTableDdl(tbl.schemaname, tbl.tablename);
-      this.save("tables", `${tbl.schemaname}.${tbl.tablename}`, ddl);
-      count++;
-    }
-    this.log("tables", count);
+    const statements = rows
+      .filter((row) => this.shouldIncludeSchema(row.schema_name))
+      .map((row) => {
+        const name = `${row.schema_name}.${row.sequence_name}`;
+        return `SELECT pg_catalog.setval('${name}', ${row.last_value}, true);`;
+      });
+    this.writer.writeSequenceValues(statements.join("\n"));
+    this.log("sequence_values", statements.length);
   }
 
-  private async buildTableDdl(schema: string, table: string): Promise<string> {
-    const parts: string[] = [];
+  // ─── FOREIGN DATA (wrappers, servers, user mappings, tables) ────
 
-    // ── Columns ──
-    const { rows: columns } = await this.client.query(
-      `
+  private async extractForeignDataWrappers(): Promise<void> {
+    const { rows } = await this.client.query(`
       SELECT
-        c.column_name,
-        c.data_type,
-        c.udt_name,
-        c.character_maximum_length,
-        c.numeric_precision,
-        c.numeric_scale,
-        c.is_nullable,
-        c.column_default
-      FROM information_schema.columns c
-      WHERE c.table_schema = $1 AND c.table_name = $2
-      ORDER BY c.ordinal_position;
-    `,
-      [schema, table]
-    );
+        w.fdwname,
+        CASE WHEN w.fdwhandler <> 0 THEN w.fdwhandler::regproc::text END AS handler,
+        CASE WHEN w.fdwvalidator <> 0 THEN w.fdwvalidator::regproc::text END AS validator,
+        w.fdwoptions,
+        pg_get_userbyid(w.fdwowner) AS owner
+      FROM pg_foreign_data_wrapper w
+      WHERE ${notExtensionMember("pg_foreign_data_wrapper", "w.oid")}
+      ORDER BY w.fdwname;
+    `);
 
-    const colDefs = columns.map((col) => {
-      let typeStr = this.buildColumnType(col);
-      let def = `    ${col.column_name} ${typeStr}`;
-      if (col.column_default !== null) def += ` DEFAULT ${col.column_default}`;
-      if (col.is_nullable === "NO") def += " NOT NULL";
-      return def;
-    });
+    for (const row of rows) {
+      let ddl = `CREATE FOREIGN DATA WRAPPER ${row.fdwname}`;
+      if (row.handler) ddl += ` HANDLER ${row.handler}`;
+      if (row.validator) ddl += ` VALIDATOR ${row.validator}`;
+      const options = formatOptions(row.fdwoptions, (name) => SECRET_OPTION.test(name));
+      if (options) ddl += `\n    ${options}`;
+      const target = `FOREIGN DATA WRAPPER ${row.fdwname}`;
+      this.save("foreign_data_wrappers", row.fdwname, this.withOwner(`${ddl};`, target, row.owner));
+    }
+    this.log("foreign_data_wrappers", rows.length);
+  }
+
+  private async extractForeignServers(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT
+        s.srvname,
+        s.srvtype,
+        s.srvversion,
+        w.fdwname,
+        s.srvoptions,
+        pg_get_userbyid(s.srvowner) AS owner
+      FROM pg_foreign_server s
+      JOIN pg_foreign_data_wrapper w ON w.oid = s.srvfdw
+      WHERE ${notExtensionMember("pg_foreign_server", "s.oid")}
+      ORDER BY s.srvname;
+    `);
 
-    parts.push(`CREATE TABLE ${schema}.${table} (`);
-    parts.push(colDefs.join(",\n"));
+    for (const row of rows) {
+      let ddl = `CREATE SERVER ${row.srvname}`;
+      if (row.srvtype) ddl += ` TYPE '${row.srvtype}'`;
+      if (row.srvversion) ddl += ` VERSION '${row.srvversion}'`;
+      ddl += ` FOREIGN DATA WRAPPER ${row.fdwname}`;
+      const options = formatOptions(row.srvoptions, (name) => SECRET_OPTION.test(name));
+      if (options) ddl += `\n    ${options}`;
+      const target = `SERVER ${row.srvname}`;
+      this.save("foreign_servers", row.srvname, this.withOwner(`${ddl};`, target, row.owner));
+    }
+    this.log("foreign_servers", rows.length);
+  }
 
-    // ── Primary Key ──
-    const { rows: pks } = await this.client.query(
-      `
+  private async extractUserMappings(): Promise<void> {
+    const { rows } = await this.client.query(`
       SELECT
-        tc.constraint_name,
-        string_agg(kcu.column_name, ', ' ORDER BY kcu.ordinal_position) AS columns
-      FROM information_schema.table_constraints tc
-      JOIN information_schema.key_column_usage kcu
-        ON kcu.constraint_name = tc.constraint_name
-        AND kcu.constraint_schema = tc.constraint_schema
-      WHERE tc.table_schema = $1
-        AND tc.table_name = $2
-        AND tc.constraint_type = 'PRIMARY KEY'
-      GROUP BY tc.constraint_name;
-    `,
-      [schema, table]
-    );
+        srvname,
+        usename,
+        umoptions
+      FROM pg_user_mappings
+      ORDER BY srvname, usename;
+    `);
 
-    if (pks.length > 0) {
-      parts[parts.length - 1] += ",";
-      parts.push(`    CONSTRAINT ${pks[0].constraint_name} PRIMARY KEY (${pks[0].columns})`);
+    for (const row of rows) {
+      // User mappings hold remote credentials, so every option value is redacted
+      const user = row.usename === "public" ? "PUBLIC" : row.usename;
+      let ddl = `CREATE USER MAPPING FOR ${user} SERVER ${row.srvname}`;
+      const options = formatOptions(row.umoptions, () => true);
+      if (options) ddl += `\n    ${options}`;
+      this.save("user_mappings", `${row.srvname}.${row.usename}`, `${ddl};`);
     }
+    this.log("user_mappings", rows.length);
+  }
 
-    // ── Unique Constraints ──
-    const { rows: uqs } = await this.client.query(
-      `
+  private async extractForeignTables(): Promise<void> {
+    const { rows: tables } = await this.client.query(`
       SELECT
-        tc.constraint_name,
-        string_agg(kcu.column_name, ', ' ORDER BY kcu.ordinal_position) AS columns
-      FROM information_schema.table_constraints tc
-      JOIN information_schema.key_column_usage kcu
-        ON kcu.constraint_name = tc.constraint_name
-        AND kcu.constraint_schema = tc.constraint_schema
-      WHERE tc.table_schema = $1
-        AND tc.table_name = $2
-        AND tc.constraint_type = 'UNIQUE'
-      GROUP BY tc.constraint_name;
-    `,
-      [schema, table]
-    );
+        n.nspname AS schema_name,
+        c.relname AS table_name,
+        s.srvname,
+        ft.ftoptions,
+        obj_description(c.oid, 'pg_class') AS description,
+        pg_get_userbyid(c.relowner) AS owner
+      FROM pg_foreign_table ft
+      JOIN pg_class c ON c.oid = ft.ftrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_foreign_server s ON s.oid = ft.ftserver
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "c.oid")}
+      ORDER BY n.nspname, c.relname;
+    `);
+
+    const { rows: columns } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        c.relname AS table_name,
+        a.attname AS column_name,
+        pg_catalog.format_type(a.atttypid, a.atttypmod) AS data_type,
+        a.attfdwoptions,
+        a.attnotnull,
+        pg_get_expr(d.adbin, d.adrelid) AS column_default
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      WHERE c.relkind = 'f'
+        AND a.attnum > 0
+        AND NOT a.attisdropped
+      ORDER BY n.nspname, c.relname, a.attnum;
+    `);
+
+    const columnComments = await this.fetchColumnComments(["f"]);
 
-    for (const uq of uqs) {
-      parts[parts.length - 1] += ",";
-      parts.push(`    CONSTRAINT ${uq.constraint_name} UNIQUE (${uq.columns})`);
+    let count = 0;
+    for (const tbl of tables) {
+      if (!this.shouldIncludeTable(tbl.schema_name, tbl.table_name)) {
+        continue;
+      }
+      const name = `${tbl.schema_name}.${tbl.table_name}`;
+      const colDefs = columns
+        .filter((col) => col.schema_name === tbl.schema_name && col.table_name === tbl.table_name)
+        .map((col) => {
+          let def = `    ${col.column_name} ${col.data_type}`;
+          const options = formatOptions(col.attfdwoptions);
+          if (options) def += ` ${options}`;
+          if (col.column_default !== null) def += ` DEFAULT ${col.column_default}`;
+          if (col.attnotnull) def += " NOT NULL";
+          return def;
+        });
+
+      const parts = [
+        `CREATE FOREIGN TABLE ${name} (`,
+        colDefs.join(",\n"),
+        ")",
+        `    SERVER ${tbl.srvname}`,
+      ];
+      const options = formatOptions(tbl.ftoptions);
+      if (options) parts.push(`    ${options}`);
+      const target = `FOREIGN TABLE ${name}`;
+      const ddl = withComment(
+        this.withOwner(parts.join("\n") + ";", target, tbl.owner),
+        target,
+        tbl.description
+      );
+      this.save("foreign_tables", name, this.appendColumnComments(ddl, name, columnComments));
+      count++;
     }
+    this.log("foreign_tables", count);
+  }
 
-    // ── Foreign Keys ──
-    const { rows: fks } = await this.client.query(
-      `
+  // ─── TABLES (full DDL with constraints) ─────────────────────────
+
+  private async extractTables(): Promise<void> {
+    const { rows } = await this.client.query<TableRow>(`
       SELECT
-        tc.constraint_name,
-        string_agg(DISTINCT kcu.column_name, ', ' ORDER BY kcu.column_name) AS columns,
-        ccu.table_schema AS ref_schema,
-        ccu.table_name AS ref_table,
-        string_agg(DISTINCT ccu.column_name, ', ' ORDER BY ccu.column_name) AS ref_columns,
-        rc.update_rule,
-        rc.delete_rule
-      FROM information_schema.table_constraints tc
-      JOIN information_schema.key_column_usage kcu
-        ON kcu.constraint_name = tc.constraint_name
-        AND kcu.constraint_schema = tc.constraint_schema
-      JOIN information_schema.constraint_column_usage ccu
-        ON ccu.constraint_name = tc.constraint_name
-        AND ccu.constraint_schema = tc.constraint_schema
-      JOIN information_schema.referential_constraints rc
-        ON rc.constraint_name = tc.constraint_name
-        AND rc.constraint_schema = tc.constraint_schema
-      WHERE tc.table_schema = $1
-        AND tc.table_name = $2
-        AND tc.constraint_type = 'FOREIGN KEY'
-      GROUP BY tc.constraint_name, ccu.table_schema, ccu.table_name,
-               rc.update_rule, rc.delete_rule;
-    `,
-      [schema, table]
+        t.schemaname,
+        t.tablename,
+        pg_get_partkeydef(c.oid) AS partition_key,
+        pn.nspname AS parent_schema,
+        pc.relname AS parent_table,
+        pg_get_expr(c.relpartbound, c.oid) AS partition_bound,
+        obj_description(c.oid, 'pg_class') AS description,
+        t.tableowner AS owner,
+        c.relpersistence = 'u' AS unlogged,
+        CASE WHEN am.amname <> 'heap' THEN am.amname END AS access_method,
+        -- Table storage parameters followed by those of its TOAST table
+        NULLIF(concat_ws(', ',
+          array_to_string(c.reloptions, ', '),
+          (
+            SELECT string_agg('toast.' || opt, ', ')
+            FROM pg_class tc, unnest(tc.reloptions) opt
+            WHERE tc.oid = c.reltoastrelid
+          )
+        ), '') AS reloptions,
+        t.tablespace,
+        (
+          SELECT array_agg(pn2.nspname || '.' || pc2.relname ORDER BY ih.inhseqno)
+          FROM pg_inherits ih
+          JOIN pg_class pc2 ON pc2.oid = ih.inhparent
+          JOIN pg_namespace pn2 ON pn2.oid = pc2.relnamespace
+          WHERE ih.inhrelid = c.oid AND NOT c.relispartition
+        ) AS inherits,
+        c.relrowsecurity AS row_security,
+        c.relforcerowsecurity AS force_row_security
+      FROM pg_tables t
+      JOIN pg_namespace n ON n.nspname = t.schemaname
+      JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = t.tablename
+      LEFT JOIN pg_am am ON am.oid = c.relam
+      LEFT JOIN pg_inherits i ON i.inhrelid = c.oid AND c.relispartition
+      LEFT JOIN pg_class pc ON pc.oid = i.inhparent
+      LEFT JOIN pg_namespace pn ON pn.oid = pc.relnamespace
+      WHERE t.schemaname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "c.oid")}
+      ORDER BY t.schemaname, t.tablename;
+    `);
+
+    const mode = this.options.partitions || "separate";
+    const tables = rows.filter(
+      (tbl) =>
+        this.shouldIncludeTable(tbl.schemaname, tbl.tablename) &&
+        !(mode === "skip" && tbl.parent_table !== null)
     );
 
-    for (const fk of fks) {
-      parts[parts.length - 1] += ",";
-      let fkDef = `    CONSTRAINT ${fk.constraint_name} FOREIGN KEY (${fk.columns})`;
-      fkDef += ` REFERENCES ${fk.ref_schema}.${fk.ref_table} (${fk.ref_columns})`;
-      if (fk.update_rule && fk.update_rule !== "NO ACTION") {
-        fkDef += ` ON UPDATE ${fk.update_rule}`;
+    // Partitions hang off their parent so they always follow it in the dump
+    const included = new Set(tables.map((tbl) => `${tbl.schemaname}.${tbl.tablename}`));
+    const children = new Map<string, TableRow[]>();
+    const roots: TableRow[] = [];
+    for (const tbl of tables) {
+      const parent = tbl.parent_table ? `${tbl.parent_schema}.${tbl.parent_table}` : null;
+      if (parent && included.has(parent)) {
+        if (!children.has(parent)) children.set(parent, []);
+        children.get(parent)!.push(tbl);
+      } else {
+        roots.push(tbl);
+      }
+    }
+
+    const catalog = await this.fetchTableCatalog(tables);
+    const collect = (tbl: TableRow): string[] => {
+      const name = `${tbl.schemaname}.${tbl.tablename}`;
+      const ddl = tbl.parent_table
+        ? this.buildPartitionDdl(tbl, catalog)
+        : this.buildTableDdl(tbl, catalog);
+      if (mode !== "collapse") {
+        this.save("tables", name, ddl);
+      }
+      const parts = [ddl];
+      for (const child of children.get(name) || []) {
+        parts.push(...collect(child));
+      }
+      return parts;
+    };
+
+    // Inheritance parents are dumped before their children
+    const byName = new Map(roots.map((tbl) => [`${tbl.schemaname}.${tbl.tablename}`, tbl]));
+    const ordered: TableRow[] = [];
+    const visited = new Set<TableRow>();
+    const visit = (tbl: TableRow) => {
+      if (visited.has(tbl)) return;
+      visited.add(tbl);
+      for (const parent of tbl.inherits || []) {
+        const parentRow = byName.get(parent);
+        if (parentRow) visit(parentRow);
       }
-      if (fk.delete_rule && fk.delete_rule !== "NO ACTION") {
-        fkDef += ` ON DELETE ${fk.delete_rule}`;
+      ordered.push(tbl);
+    };
+    roots.forEach(visit);
+
+    for (const tbl of ordered) {
+      const parts = collect(tbl);
+      if (mode === "collapse") {
+        this.save("tables", `${tbl.schemaname}.${tbl.tablename}`, parts.join("\n\n"));
       }
-      parts.push(fkDef);
     }
+    this.log("tables", tables.length);
+  }
 
-    // ── Check Constraints ──
-    const { rows: checks } = await this.client.query(
-      `
-      SELECT
-        cc.constraint_name,
-        cc.check_clause
-      FROM information_schema.check_constraints cc
-      JOIN information_schema.table_constraints tc
-        ON tc.constraint_name = cc.constraint_name
-        AND tc.constraint_schema = cc.constraint_schema
-      WHERE tc.table_schema = $1
-        AND tc.table_name = $2
-        AND tc.constraint_type = 'CHECK'
-        AND cc.constraint_name NOT LIKE '%_not_null';
-    `,
-      [schema, table]
+  /**
+   * CREATE TABLE ... PARTITION OF with what the partition adds to its parent:
+   * column defaults and NOT NULLs, and its own (non-inherited) constraints.
+   */
+  private buildPartitionDdl(tbl: TableRow, catalog: TableCatalog): string {
+    const name = `${tbl.schemaname}.${tbl.tablename}`;
+
+    // Partitions copy the parent's defaults, so only differing ones are written
+    const columnAlters: string[] = [];
+    const colDefs: string[] = [];
+    for (const col of catalog.columns.get(name) || []) {
+      if (col.generated || col.identity) continue;
+      const options: string[] = [];
+      if (col.column_default !== null && col.column_default !== col.parent_default) {
+        options.push(`DEFAULT ${col.column_default}`);
+      } else if (col.column_default === null && col.parent_default !== null) {
+        columnAlters.push(`ALTER TABLE ${name} ALTER COLUMN ${col.column_name} DROP DEFAULT;`);
+      }
+      if (col.not_null && !col.parent_not_null) options.push("NOT NULL");
+      if (options.length > 0) {
+        colDefs.push(`    ${col.column_name} WITH OPTIONS ${options.join(" ")}`);
+      }
+    }
+    const conDefs = (catalog.constraints.get(name) || []).map(
+      (con) => `    CONSTRAINT ${con.conname} ${con.definition}`
     );
+    const body = [...colDefs, ...conDefs];
+
+    const subPartition = tbl.partition_key ? ` PARTITION BY ${tbl.partition_key}` : "";
+    const create = `CREATE ${tbl.unlogged ? "UNLOGGED " : ""}TABLE ${name}`;
+    const clauses = [`${tbl.partition_bound}${subPartition}`, ...storageClauses(tbl)];
+    const partitionOf = `${create} PARTITION OF ${tbl.parent_schema}.${tbl.parent_table}`;
+    const ddl = [
+      body.length > 0 ? `${partitionOf} (\n${body.join(",\n")}\n)` : partitionOf,
+      ...clauses.map((l) => `    ${l}`),
+    ].join("\n");
+
+    // Same layout as buildTableDdl
+    const parts = [`${ddl};`];
+    if (columnAlters.length > 0) parts.push(`\n${columnAlters.join("\n")}`);
+    const owner = mapOwner(tbl.owner, this.options.ownerMap);
+    if (owner !== null) parts.push(`\nALTER TABLE ${name} OWNER TO ${owner};`);
+    for (const comment of catalog.columnComments.get(name) || []) {
+      parts.push(`\n${comment}`);
+    }
+    if (tbl.description !== null) {
+      parts.push(`\n${commentOn(`TABLE ${name}`, tbl.description)}`);
+    }
+    for (const comment of catalog.constraintComments.get(name) || []) {
+      parts.push(`\n${comment}`);
+    }
+    return parts.join("\n");
+  }
 
-    for (const chk of checks) {
-      parts[parts.length - 1] += ",";
-      parts.push(`    CONSTRAINT ${chk.constraint_name} CHECK (${chk.check_clause})`);
+  /**
+   * Columns, constraints and comments of every extracted table, one query per
+   * catalog. With --jobs, the tables are split into one chunk per worker
+   * connection and the chunks are read in parallel.
+   */
+  private async fetchTableCatalog(tables: TableRow[]): Promise<TableCatalog> {
+    const version = await this.getServerVersion();
+
+    const workers = this.options.workers;
+    const chunkCount = workers ? Math.max(1, Math.min(workers.jobs, tables.length)) : 1;
+    const tasks = Array.from({ length: chunkCount }, (_, i) => {
+      const chunk = tables.filter((_, j) => j % chunkCount === i);
+      return (client: ClientBase) => this.fetchTableRows(client, chunk, version);
+    });
+    const chunks =
+      workers && tasks.length > 1
+        ? await parallelWorkers(workers, tasks)
+        : [await tasks[0](this.client)];
+    const columns = chunks.flatMap((chunk) => chunk.columns);
+    const constraints = chunks.flatMap((chunk) => chunk.constraints);
+    const conComments = chunks.flatMap((chunk) => chunk.constraintComments);
+
+    const constraintComments = new Map<string, string[]>();
+    for (const [relation, comments] of groupByRelation(conComments)) {
+      const statements = comments.map((cmt) =>
+        commentOn(`CONSTRAINT ${cmt.conname} ON ${relation}`, cmt.description)
+      );
+      constraintComments.set(relation, statements);
     }
 
-    parts.push(");");
+    return {
+      columns: groupByRelation(columns),
+      constraints: groupByRelation(constraints),
+      columnComments: await this.fetchColumnComments(["r", "p"]),
+      constraintComments,
+    };
+  }
 
-    // ── Column Comments ──
-    const { rows: comments } = await this.client.query(
+  /** Columns, constraints and constraint comments of some tables, read on the given connection */
+  private async fetchTableRows(
+    client: ClientBase,
+    tables: TableRow[],
+    version: number
+  ): Promise<{
+    columns: ColumnRow[];
+    constraints: ConstraintRow[];
+    constraintComments: ConstraintCommentRow[];
+  }> {
+    const names = [tables.map((tbl) => tbl.schemaname), tables.map((tbl) => tbl.tablename)];
+
+    const { rows: columns } = await client.query<ColumnRow>(
       `
       SELECT
+        n.nspname || '.' || c.relname AS relation,
         a.attname AS column_name,
-        d.description
-      FROM pg_class c
+        pg_catalog.format_type(a.atttypid, a.atttypmod) AS data_type,
+        a.attnotnull AS not_null,
+        pg_get_expr(d.adbin, d.adrelid) AS column_default,
+        ${version >= 120000 ? "a.attgenerated" : "''"} AS generated,
+        a.attidentity AS identity,
+        (
+          SELECT format('START WITH %s INCREMENT BY %s MINVALUE %s MAXVALUE %s CACHE %s%s',
+            s.seqstart, s.seqincrement, s.seqmin, s.seqmax, s.seqcache,
+            CASE WHEN s.seqcycle THEN ' CYCLE' ELSE '' END)
+          FROM pg_depend dep
+          JOIN pg_sequence s ON s.seqrelid = dep.objid
+          WHERE dep.classid = 'pg_class'::regclass
+            AND dep.refobjid = c.oid AND dep.refobjsubid = a.attnum AND dep.deptype = 'i'
+        ) AS identity_options,
+        CASE WHEN a.attcollation <> t.typcollation
+          THEN quote_ident(cn.nspname) || '.' || quote_ident(co.collname)
+        END AS collation,
+        CASE WHEN a.attstorage <> t.typstorage THEN a.attstorage::text END AS storage,
+        ${version >= 140000 ? "NULLIF(a.attcompression::text, '')" : "NULL"} AS compression,
+        NULLIF(a.attstattarget, -1) AS statistics,
+        pg_get_expr(pd.adbin, pd.adrelid) AS parent_default,
+        pa.attnotnull AS parent_not_null
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
       JOIN pg_namespace n ON n.oid = c.relnamespace
-      JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
-      JOIN pg_description d ON d.objoid = c.oid AND d.objsubid = a.attnum
-      WHERE n.nspname = $1 AND c.relname = $2;
+      JOIN pg_type t ON t.oid = a.atttypid
+      LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      LEFT JOIN pg_collation co ON co.oid = a.attcollation
+      LEFT JOIN pg_namespace cn ON cn.oid = co.collnamespace
+      LEFT JOIN pg_inherits inh ON inh.inhrelid = c.oid AND c.relispartition
+      LEFT JOIN pg_attribute pa ON pa.attrelid = inh.inhparent AND pa.attname = a.attname
+      LEFT JOIN pg_attrdef pd ON pd.adrelid = pa.attrelid AND pd.adnum = pa.attnum
+      WHERE (n.nspname, c.relname) IN (SELECT * FROM unnest($1::text[], $2::text[]))
+        AND c.relkind IN ('r', 'p')
+        AND a.attnum > 0
+        AND NOT a.attisdropped
+        -- Columns inherited from INHERITS parents come with the parent;
+        -- partition columns are kept to render their defaults and NOT NULLs
+        AND (a.attislocal OR c.relispartition)
+      ORDER BY n.nspname, c.relname, a.attnum;
     `,
-      [schema, table]
+      names
     );
 
-    for (const cmt of comments) {
-      parts.push(
-        `\nCOMMENT ON COLUMN ${schema}.${table}.${cmt.column_name} IS '${cmt.description.replace(/'/g, "''")}';`
-      );
-    }
+    // Inherited constraints come with the parent and are not repeated
+    const { rows: constraints } = await client.query<ConstraintRow>(
+      `
+      SELECT
+        n.nspname || '.' || c.relname AS relation,
+        con.conname,
+        pg_get_constraintdef(con.oid) AS definition
+      FROM pg_constraint con
+      JOIN pg_class c ON c.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE (n.nspname, c.relname) IN (SELECT * FROM unnest($1::text[], $2::text[]))
+        AND c.relkind IN ('r', 'p')
+        AND con.contype IN ('p', 'u', 'f', 'c', 'x')
+        AND con.conislocal
+      ORDER BY n.nspname, c.relname, position(con.contype::text IN 'pufcx'), con.conname;
+    `,
+      names
+    );
 
-    // ── Table Comment ──
-    const { rows: tblComments } = await this.client.query(
+    const { rows: constraintComments } = await client.query<ConstraintCommentRow>(
       `
-      SELECT d.description
-      FROM pg_class c
+      SELECT
+        n.nspname || '.' || c.relname AS relation,
+        con.conname,
+        d.description
+      FROM pg_constraint con
+      JOIN pg_class c ON c.oid = con.conrelid
       JOIN pg_namespace n ON n.oid = c.relnamespace
-      JOIN pg_description d ON d.objoid = c.oid AND d.objsubid = 0
-      WHERE n.nspname = $1 AND c.relname = $2;
+      JOIN pg_description d ON d.objoid = con.oid AND d.classoid = 'pg_constraint'::regclass
+      WHERE (n.nspname, c.relname) IN (SELECT * FROM unnest($1::text[], $2::text[]))
+        AND c.relkind IN ('r', 'p')
+      ORDER BY n.nspname, c.relname, con.conname;
     `,
-      [schema, table]
+      names
     );
 
-    if (tblComments.length > 0) {
-      parts.push(
-        `\nCOMMENT ON TABLE ${schema}.${table} IS '${tblComments[0].description.replace(/'/g, "''")}';`
-      );
+    return { columns, constraints, constraintComments };
+  }
+
+  private buildTableDdl(tbl: TableRow, catalog: TableCatalog): string {
+    const schema = tbl.schemaname;
+    const table = tbl.tablename;
+    const name = `${schema}.${table}`;
+    const parts: string[] = [];
+
+    // ── Columns ──
+    const storageModes: Record<string, string> = {
+      p: "PLAIN",
+      e: "EXTERNAL",
+      m: "MAIN",
+      x: "EXTENDED",
+    };
+    const compressionMethods: Record<string, string> = { p: "pglz", l: "lz4" };
+    const generatedKinds: Record<string, string> = { s: "STORED", v: "VIRTUAL" };
+
+    // STORAGE and SET STATISTICS are not accepted by CREATE TABLE on every version
+    const columnAlters: string[] = [];
+    const colDefs = (catalog.columns.get(name) || []).map((col) => {
+      let def = `    ${col.column_name} ${col.data_type}`;
+      if (col.collation) def += ` COLLATE ${col.collation}`;
+      if (col.compression) def += ` COMPRESSION ${compressionMethods[col.compression]}`;
+      if (col.generated) {
+        def += ` GENERATED ALWAYS AS (${col.column_default}) ${generatedKinds[col.generated]}`;
+      } else if (col.identity) {
+        def += ` GENERATED ${col.identity === "a" ? "ALWAYS" : "BY DEFAULT"} AS IDENTITY`;
+        if (col.identity_options) def += ` (${col.identity_options})`;
+      } else if (col.column_default !== null) {
+        def += ` DEFAULT ${col.column_default}`;
+      }
+      if (col.not_null) def += " NOT NULL";
+
+      const alter = `ALTER TABLE ${schema}.${table} ALTER COLUMN ${col.column_name}`;
+      if (col.storage) columnAlters.push(`${alter} SET STORAGE ${storageModes[col.storage]};`);
+      if (col.statistics !== null) columnAlters.push(`${alter} SET STATISTICS ${col.statistics};`);
+      return def;
+    });
+
+    parts.push(`CREATE ${tbl.unlogged ? "UNLOGGED " : ""}TABLE ${schema}.${table} (`);
+
+    // ── Constraints ──
+    const conDefs = (catalog.constraints.get(name) || []).map(
+      (con) => `    CONSTRAINT ${con.conname} ${con.definition}`
+    );
+    const body = [...colDefs, ...conDefs];
+    if (body.length > 0) parts.push(body.join(",\n"));
+
+    // ── Inheritance, partitioning and storage ──
+    const inherits = tbl.inherits ? ` INHERITS (${tbl.inherits.join(", ")})` : "";
+    const partitionBy = tbl.partition_key ? ` PARTITION BY ${tbl.partition_key}` : "";
+    parts.push([`)${inherits}${partitionBy}`, ...storageClauses(tbl)].join("\n") + ";");
+
+    if (columnAlters.length > 0) {
+      parts.push(`\n${columnAlters.join("\n")}`);
     }
 
-    return parts.join("\n");
-  }
+    // ── Row Level Security ──
+    if (tbl.row_security) {
+      parts.push(`\nALTER TABLE ${schema}.${table} ENABLE ROW LEVEL SECURITY;`);
+    }
+    if (tbl.force_row_security) {
+      parts.push(`ALTER TABLE ${schema}.${table} FORCE ROW LEVEL SECURITY;`);
+    }
 
-  private buildColumnType(col: ColumnTypeRow): string {
-    const { data_type, udt_name, character_maximum_length, numeric_precision, numeric_scale } = col;
+    // ── Owner ──
+    const owner = mapOwner(tbl.owner, this.options.ownerMap);
+    if (owner !== null) {
+      parts.push(`\nALTER TABLE ${schema}.${table} OWNER TO ${owner};`);
+    }
 
-    if (data_type === "ARRAY") return `${udt_name.replace(/^_/, "")}[]`;
-    if (data_type === "USER-DEFINED") return udt_name;
-    if (["character varying", "varchar"].includes(data_type)) {
-      return character_maximum_length ? `varchar(${character_maximum_length})` : "varchar";
+    // ── Comments (columns, table, constraints) ──
+    for (const comment of catalog.columnComments.get(name) || []) {
+      parts.push(`\n${comment}`);
     }
-    if (["character", "char"].includes(data_type)) {
-      return character_maximum_length ? `char(${character_maximum_length})` : "char";
+    if (tbl.description !== null) {
+      parts.push(`\n${commentOn(`TABLE ${schema}.${table}`, tbl.description)}`);
     }
-    if (data_type === "numeric" && numeric_precision) {
-      return `numeric(${numeric_precision},${numeric_scale || 0})`;
+    for (const comment of catalog.constraintComments.get(name) || []) {
+      parts.push(`\n${comment}`);
     }
-    return data_type;
+
+    return parts.join("\n");
   }
 
   // ─── VIEWS ──────────────────────────────────────────────────────
@@ -439,21 +1267,48 @@ export class DdlExtractor {
   private async extractViews(): Promise<void> {
     const { rows } = await this.client.query(`
       SELECT
-        schemaname AS schema_name,
-        viewname AS view_name,
-        definition
-      FROM pg_views
-      WHERE schemaname NOT IN ${EXCLUDED_SCHEMAS}
-      ORDER BY schemaname, viewname;
+        v.schemaname AS schema_name,
+        v.viewname AS view_name,
+        v.definition,
+        obj_description(c.oid, 'pg_class') AS description,
+        v.viewowner AS owner,
+        -- check_option is written as WITH ... CHECK OPTION after the query
+        (
+          SELECT string_agg(opt, ', ')
+          FROM unnest(c.reloptions) opt
+          WHERE opt NOT LIKE 'check_option=%'
+        ) AS options,
+        (
+          SELECT upper(substring(opt FROM 'check_option=(.*)'))
+          FROM unnest(c.reloptions) opt
+          WHERE opt LIKE 'check_option=%'
+        ) AS check_option
+      FROM pg_views v
+      JOIN pg_namespace n ON n.nspname = v.schemaname
+      JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = v.viewname
+      WHERE v.schemaname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "c.oid")}
+      ORDER BY v.schemaname, v.viewname;
     `);
 
+    const columnComments = await this.fetchColumnComments(["v"]);
+
     let count = 0;
     for (const row of rows) {
       if (!this.shouldIncludeSchema(row.schema_name)) {
         continue;
       }
-      const ddl = `CREATE OR REPLACE VIEW ${row.schema_name}.${row.view_name} AS\n${row.definition}`;
-      this.save("views", `${row.schema_name}.${row.view_name}`, ddl);
+      const name = `${row.schema_name}.${row.view_name}`;
+      const options = row.options ? ` WITH (${row.options})` : "";
+      let definition = row.definition.trim().replace(/;$/, "");
+      if (row.check_option) definition += `\nWITH ${row.check_option} CHECK OPTION`;
+      const withOwner = this.withOwner(
+        `CREATE OR REPLACE VIEW ${name}${options} AS\n${definition};`,
+        `VIEW ${name}`,
+        row.owner
+      );
+      const ddl = withComment(withOwner, `VIEW ${name}`, row.description);
+      this.save("views", name, this.appendColumnComments(ddl, name, columnComments));
       count++;
     }
     this.log("views", count);
@@ -464,21 +1319,55 @@ export class DdlExtractor {
   private async extractMaterializedViews(): Promise<void> {
     const { rows } = await this.client.query(`
       SELECT
-        schemaname AS schema_name,
-        matviewname AS view_name,
-        definition
-      FROM pg_matviews
-      WHERE schemaname NOT IN ${EXCLUDED_SCHEMAS}
-      ORDER BY schemaname, matviewname;
+        m.schemaname AS schema_name,
+        m.matviewname AS view_name,
+        m.definition,
+        obj_description(c.oid, 'pg_class') AS description,
+        m.matviewowner AS owner,
+        m.ispopulated,
+        CASE WHEN am.amname <> 'heap' THEN am.amname END AS access_method,
+        array_to_string(c.reloptions, ', ') AS reloptions,
+        m.tablespace
+      FROM pg_matviews m
+      JOIN pg_namespace n ON n.nspname = m.schemaname
+      JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = m.matviewname
+      LEFT JOIN pg_am am ON am.oid = c.relam
+      WHERE m.schemaname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "c.oid")}
+      ORDER BY m.schemaname, m.matviewname;
     `);
 
+    const columnComments = await this.fetchColumnComments(["m"]);
+
+    // Indexes live with their materialized view rather than under indexes/
+    const indexes = new Map<string, string[]>();
+    for (const idx of await this.fetchIndexes(true)) {
+      const relation = `${idx.schema_name}.${idx.table_name}`;
+      if (!indexes.has(relation)) indexes.set(relation, []);
+      indexes.get(relation)!.push(indexDdl(idx));
+    }
+
     let count = 0;
     for (const row of rows) {
       if (!this.shouldIncludeSchema(row.schema_name)) {
         continue;
       }
-      const ddl = `CREATE MATERIALIZED VIEW ${row.schema_name}.${row.view_name} AS\n${row.definition}\nWITH DATA;`;
-      this.save("materialized_views", `${row.schema_name}.${row.view_name}`, ddl);
+      const name = `${row.schema_name}.${row.view_name}`;
+      const target = `MATERIALIZED VIEW ${name}`;
+      const query = row.definition.trim().replace(/;$/, "");
+      const create = [
+        `CREATE ${target}`,
+        ...storageClauses(row),
+        `AS\n${query}`,
+        row.ispopulated ? "WITH DATA;" : "WITH NO DATA;",
+      ].join("\n");
+      const ddl = withComment(this.withOwner(create, target, row.owner), target, row.description);
+      const withIndexes = [ddl, ...(indexes.get(name) || [])].join("\n\n");
+      this.save(
+        "materialized_views",
+        name,
+        this.appendColumnComments(withIndexes, name, columnComments)
+      );
       count++;
     }
     this.log("materialized_views", count);
@@ -487,114 +1376,1097 @@ export class DdlExtractor {
   // ─── FUNCTIONS & PROCEDURES ─────────────────────────────────────
 
   private async extractFunctions(): Promise<void> {
+    await this.extractRoutines("functions", "p.prokind IN ('f', 'w')");
+  }
+
+  private async extractProcedures(): Promise<void> {
+    await this.extractRoutines("procedures", "p.prokind = 'p'");
+  }
+
+  /** Functions and procedures, keyed by identity signature so overloads get their own file */
+  private async extractRoutines(category: ObjectCategory, kindFilter: string): Promise<void> {
     const { rows } = await this.client.query(`
       SELECT
         n.nspname AS schema_name,
         p.proname AS function_name,
-        pg_get_functiondef(p.oid) AS definition
+        pg_get_function_identity_arguments(p.oid) AS arguments,
+        pg_get_functiondef(p.oid) AS definition,
+        obj_description(p.oid, 'pg_proc') AS description,
+        pg_get_userbyid(p.proowner) AS owner
       FROM pg_proc p
       JOIN pg_namespace n ON n.oid = p.pronamespace
       WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
-      ORDER BY n.nspname, p.proname;
+        AND ${kindFilter}
+        AND ${notExtensionMember("pg_proc", "p.oid")}
+      ORDER BY n.nspname, p.proname, arguments;
     `);
 
-    // Handle overloaded functions (same name, different args)
-    const nameCount: Record<string, number> = {};
     let count = 0;
+    for (const row of rows) {
+      if (!this.shouldIncludeSchema(row.schema_name)) {
+        continue;
+      }
+      const objectName = `${row.schema_name}.${row.function_name}(${row.arguments})`;
+      const kind = category === "procedures" ? "PROCEDURE" : "FUNCTION";
+      const target = `${kind} ${objectName}`;
+      const ddl = withComment(
+        this.withOwner(`${row.definition};`, target, row.owner),
+        target,
+        row.description
+      );
+      this.save(category, objectName, ddl);
+      count++;
+    }
+    this.log(category, count);
+  }
+
+  // ─── AGGREGATES (pg_get_functiondef does not support them) ──────
+
+  private async extractAggregates(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        p.proname AS aggregate_name,
+        pg_get_function_identity_arguments(p.oid) AS arguments,
+        a.aggkind,
+        a.aggtransfn::regproc::text AS sfunc,
+        pg_catalog.format_type(a.aggtranstype, NULL) AS stype,
+        a.aggtransspace,
+        CASE WHEN a.aggfinalfn::oid <> 0 THEN a.aggfinalfn::regproc::text END AS finalfunc,
+        a.aggfinalextra,
+        a.aggfinalmodify,
+        CASE WHEN a.aggcombinefn::oid <> 0 THEN a.aggcombinefn::regproc::text END AS combinefunc,
+        CASE WHEN a.aggserialfn::oid <> 0 THEN a.aggserialfn::regproc::text END AS serialfunc,
+        CASE WHEN a.aggdeserialfn::oid <> 0 THEN a.aggdeserialfn::regproc::text END AS deserialfunc,
+        a.agginitval,
+        CASE WHEN a.aggmtransfn::oid <> 0 THEN a.aggmtransfn::regproc::text END AS msfunc,
+        CASE WHEN a.aggminvtransfn::oid <> 0 THEN a.aggminvtransfn::regproc::text END AS minvfunc,
+        CASE WHEN a.aggmtranstype <> 0 THEN pg_catalog.format_type(a.aggmtranstype, NULL) END AS mstype,
+        a.aggmtransspace,
+        CASE WHEN a.aggmfinalfn::oid <> 0 THEN a.aggmfinalfn::regproc::text END AS mfinalfunc,
+        a.aggmfinalextra,
+        a.aggminitval,
+        CASE WHEN a.aggsortop <> 0
+          THEN (SELECT o.oprname FROM pg_operator o WHERE o.oid = a.aggsortop)
+        END AS sortop,
+        p.proparallel,
+        obj_description(p.oid, 'pg_proc') AS description,
+        pg_get_userbyid(p.proowner) AS owner
+      FROM pg_aggregate a
+      JOIN pg_proc p ON p.oid = a.aggfnoid
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_proc", "p.oid")}
+      ORDER BY n.nspname, p.proname, arguments;
+    `);
+
+    const quote = (v: string) => `'${v.replace(/'/g, "''")}'`;
+    const parallel: Record<string, string> = { s: "SAFE", r: "RESTRICTED" };
+    const modify: Record<string, string> = { r: "READ_ONLY", s: "SHAREABLE", w: "READ_WRITE" };
+
+    let count = 0;
+    for (const row of rows) {
+      if (!this.shouldIncludeSchema(row.schema_name)) {
+        continue;
+      }
+      // Ordered-set aggregates default to READ_WRITE final functions, others to READ_ONLY
+      const defaultModify = row.aggkind === "n" ? "r" : "w";
+
+      const options = [`SFUNC = ${row.sfunc}`, `STYPE = ${row.stype}`];
+      if (row.aggtransspace > 0) options.push(`SSPACE = ${row.aggtransspace}`);
+      if (row.finalfunc) options.push(`FINALFUNC = ${row.finalfunc}`);
+      if (row.aggfinalextra) options.push("FINALFUNC_EXTRA");
+      if (row.finalfunc && row.aggfinalmodify !== defaultModify) {
+        options.push(`FINALFUNC_MODIFY = ${modify[row.aggfinalmodify]}`);
+      }
+      if (row.combinefunc) options.push(`COMBINEFUNC = ${row.combinefunc}`);
+      if (row.serialfunc) options.push(`SERIALFUNC = ${row.serialfunc}`);
+      if (row.deserialfunc) options.push(`DESERIALFUNC = ${row.deserialfunc}`);
+      if (row.agginitval !== null) options.push(`INITCOND = ${quote(row.agginitval)}`);
+      if (row.msfunc) options.push(`MSFUNC = ${row.msfunc}`);
+      if (row.minvfunc) options.push(`MINVFUNC = ${row.minvfunc}`);
+      if (row.mstype) options.push(`MSTYPE = ${row.mstype}`);
+      if (row.aggmtransspace > 0) options.push(`MSSPACE = ${row.aggmtransspace}`);
+      if (row.mfinalfunc) options.push(`MFINALFUNC = ${row.mfinalfunc}`);
+      if (row.aggmfinalextra) options.push("MFINALFUNC_EXTRA");
+      if (row.aggminitval !== null) options.push(`MINITCOND = ${quote(row.aggminitval)}`);
+      if (row.sortop) options.push(`SORTOP = ${row.sortop}`);
+      if (parallel[row.proparallel]) options.push(`PARALLEL = ${parallel[row.proparallel]}`);
+      if (row.aggkind === "h") options.push("HYPOTHETICAL");
+
+      const name = `${row.schema_name}.${row.aggregate_name}`;
+      const signature = `${name}(${row.arguments || "*"})`;
+      const target = `AGGREGATE ${signature}`;
+      const ddl = this.withOwner(
+        `CREATE ${target} (\n    ${options.join(",\n    ")}\n);`,
+        target,
+        row.owner
+      );
+      this.save("aggregates", signature, withComment(ddl, target, row.description));
+      count++;
+    }
+    this.log("aggregates", count);
+  }
+
+  // ─── COLLATIONS ─────────────────────────────────────────────────
+
+  private async extractCollations(): Promise<void> {
+    const version = await this.getServerVersion();
+    // The ICU/builtin locale column moved in PostgreSQL 15 and again in 17
+    const localeColumn =
+      version >= 170000 ? "c.colllocale" : version >= 150000 ? "c.colliculocale" : "NULL";
 
+    const { rows } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        c.collname AS collation_name,
+        c.collprovider AS provider,
+        c.collisdeterministic AS deterministic,
+        c.collcollate AS lc_collate,
+        c.collctype AS lc_ctype,
+        ${localeColumn} AS locale,
+        pg_get_userbyid(c.collowner) AS owner
+      FROM pg_collation c
+      JOIN pg_namespace n ON n.oid = c.collnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_collation", "c.oid")}
+      ORDER BY n.nspname, c.collname;
+    `);
+
+    const providers: Record<string, string> = { c: "libc", i: "icu", b: "builtin" };
+    const quote = (v: string) => `'${v.replace(/'/g, "''")}'`;
+
+    let count = 0;
     for (const row of rows) {
       if (!this.shouldIncludeSchema(row.schema_name)) {
         continue;
       }
-      const baseName = `${row.schema_name}.${row.function_name}`;
-      nameCount[baseName] = (nameCount[baseName] || 0) + 1;
-      const suffix = nameCount[baseName] > 1 ? `_${nameCount[baseName]}` : "";
-      const objectName = `${baseName}${suffix}`;
+      const options = [`provider = ${providers[row.provider] || "libc"}`];
+      if (row.provider === "c") {
+        options.push(`lc_collate = ${quote(row.lc_collate)}`, `lc_ctype = ${quote(row.lc_ctype)}`);
+      } else {
+        options.push(`locale = ${quote(row.locale ?? row.lc_collate)}`);
+      }
+      if (!row.deterministic) options.push("deterministic = false");
+
+      const name = `${row.schema_name}.${row.collation_name}`;
+      const ddl = `CREATE COLLATION ${name} (${options.join(", ")});`;
+      this.save("collations", name, this.withOwner(ddl, `COLLATION ${name}`, row.owner));
+      count++;
+    }
+    this.log("collations", count);
+  }
+
+  // ─── OPERATORS (operators, operator families, operator classes) ─
+
+  private async extractOperators(): Promise<void> {
+    // Reference to another operator, usable in COMMUTATOR / NEGATOR / FOR ORDER BY clauses
+    const operatorRef = (oid: string) => `(
+          SELECT 'OPERATOR(' || quote_ident(rn.nspname) || '.' || ro.oprname || ')'
+          FROM pg_operator ro
+          JOIN pg_namespace rn ON rn.oid = ro.oprnamespace
+          WHERE ro.oid = ${oid}
+        )`;
+
+    const { rows: operators } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        o.oprname,
+        CASE WHEN o.oprleft <> 0 THEN pg_catalog.format_type(o.oprleft, NULL) END AS leftarg,
+        CASE WHEN o.oprright <> 0 THEN pg_catalog.format_type(o.oprright, NULL) END AS rightarg,
+        o.oprcode::regproc::text AS function_name,
+        ${operatorRef("o.oprcom")} AS commutator,
+        ${operatorRef("o.oprnegate")} AS negator,
+        CASE WHEN o.oprrest::oid <> 0 THEN o.oprrest::regproc::text END AS restrict,
+        CASE WHEN o.oprjoin::oid <> 0 THEN o.oprjoin::regproc::text END AS join,
+        o.oprcanhash,
+        o.oprcanmerge,
+        pg_get_userbyid(o.oprowner) AS owner
+      FROM pg_operator o
+      JOIN pg_namespace n ON n.oid = o.oprnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_operator", "o.oid")}
+      ORDER BY n.nspname, o.oprname, leftarg, rightarg;
+    `);
+
+    let count = 0;
+    for (const row of operators) {
+      if (!this.shouldIncludeSchema(row.schema_name)) {
+        continue;
+      }
+      const options = [`FUNCTION = ${row.function_name}`];
+      if (row.leftarg) options.push(`LEFTARG = ${row.leftarg}`);
+      if (row.rightarg) options.push(`RIGHTARG = ${row.rightarg}`);
+      if (row.commutator) options.push(`COMMUTATOR = ${row.commutator}`);
+      if (row.negator) options.push(`NEGATOR = ${row.negator}`);
+      if (row.restrict) options.push(`RESTRICT = ${row.restrict}`);
+      if (row.join) options.push(`JOIN = ${row.join}`);
+      if (row.oprcanhash) options.push("HASHES");
+      if (row.oprcanmerge) options.push("MERGES");
+
+      const name = `${row.schema_name}.${row.oprname}`;
+      const args = `(${row.leftarg || "NONE"}, ${row.rightarg || "NONE"})`;
+      const ddl = this.withOwner(
+        `CREATE OPERATOR ${name} (\n    ${options.join(",\n    ")}\n);`,
+        `OPERATOR ${name} ${args}`,
+        row.owner
+      );
+      // Keyed by signature so overloads get their own file and DROP OPERATOR can use it
+      this.save("operators", `operator.${name}${args}`, ddl);
+      count++;
+    }
+
+    // Operator family / class members. Class members depend on their class,
+    // "loose" family members (ALTER OPERATOR FAMILY ... ADD) on the family.
+    const { rows: members } = await this.client.query(`
+      SELECT
+        d.refclassid::regclass::text AS owner_catalog,
+        d.refobjid AS owner_oid,
+        'OPERATOR ' || ao.amopstrategy || ' ' || ao.amopopr::regoperator::text
+          || CASE WHEN ao.amoppurpose = 'o'
+               THEN ' FOR ORDER BY ' || quote_ident(sfn.nspname) || '.' || quote_ident(sf.opfname)
+               ELSE ''
+             END AS member,
+        1 AS member_kind,
+        ao.amopstrategy AS member_number
+      FROM pg_amop ao
+      JOIN pg_depend d ON d.classid = 'pg_amop'::regclass AND d.objid = ao.oid AND d.deptype IN ('a', 'i')
+      LEFT JOIN pg_opfamily sf ON sf.oid = ao.amopsortfamily
+      LEFT JOIN pg_namespace sfn ON sfn.oid = sf.opfnamespace
+      WHERE d.refclassid IN ('pg_opclass'::regclass, 'pg_opfamily'::regclass)
+
+      UNION ALL
+
+      SELECT
+        d.refclassid::regclass::text,
+        d.refobjid,
+        'FUNCTION ' || ap.amprocnum || ' ('
+          || pg_catalog.format_type(ap.amproclefttype, NULL) || ', '
+          || pg_catalog.format_type(ap.amprocrighttype, NULL) || ') '
+          || ap.amproc::regprocedure::text,
+        2,
+        ap.amprocnum
+      FROM pg_amproc ap
+      JOIN pg_depend d ON d.classid = 'pg_amproc'::regclass AND d.objid = ap.oid AND d.deptype IN ('a', 'i')
+      WHERE d.refclassid IN ('pg_opclass'::regclass, 'pg_opfamily'::regclass)
+      ORDER BY member_kind, member_number;
+    `);
+    const membersOf = (catalog: string, oid: number) =>
+      members
+        .filter((m) => m.owner_catalog === catalog && Number(m.owner_oid) === Number(oid))
+        .map((m) => m.member);
+
+    const { rows: families } = await this.client.query<OperatorFamilyRow>(`
+      SELECT
+        f.oid,
+        n.nspname AS schema_name,
+        f.opfname AS family_name,
+        am.amname AS access_method,
+        pg_get_userbyid(f.opfowner) AS owner,
+        -- Families created implicitly by CREATE OPERATOR CLASS share the class name
+        EXISTS (
+          SELECT 1 FROM pg_opclass c
+          WHERE c.opcfamily = f.oid AND c.opcname = f.opfname AND c.opcnamespace = f.opfnamespace
+        ) AS implicit
+      FROM pg_opfamily f
+      JOIN pg_namespace n ON n.oid = f.opfnamespace
+      JOIN pg_am am ON am.oid = f.opfmethod
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_opfamily", "f.oid")}
+      ORDER BY n.nspname, f.opfname, am.amname;
+    `);
+
+    const { rows: classes } = await this.client.query(`
+      SELECT
+        c.oid,
+        n.nspname AS schema_name,
+        c.opcname AS class_name,
+        am.amname AS access_method,
+        c.opcdefault,
+        pg_catalog.format_type(c.opcintype, NULL) AS input_type,
+        CASE WHEN c.opckeytype <> 0 THEN pg_catalog.format_type(c.opckeytype, NULL) END AS storage_type,
+        fn.nspname AS family_schema,
+        f.opfname AS family_name,
+        pg_get_userbyid(c.opcowner) AS owner
+      FROM pg_opclass c
+      JOIN pg_namespace n ON n.oid = c.opcnamespace
+      JOIN pg_am am ON am.oid = c.opcmethod
+      JOIN pg_opfamily f ON f.oid = c.opcfamily
+      JOIN pg_namespace fn ON fn.oid = f.opfnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_opclass", "c.oid")}
+      ORDER BY n.nspname, c.opcname, am.amname;
+    `);
+
+    const familyDdl = (row: OperatorFamilyRow, withCreate: boolean): string[] => {
+      const name = `${row.schema_name}.${row.family_name}`;
+      const create = `CREATE OPERATOR FAMILY ${name} USING ${row.access_method};`;
+      const target = `OPERATOR FAMILY ${name} USING ${row.access_method}`;
+      const parts = withCreate ? [this.withOwner(create, target, row.owner)] : [];
+      const loose = membersOf("pg_opfamily", row.oid);
+      if (loose.length > 0) {
+        parts.push(
+          `ALTER OPERATOR FAMILY ${name} USING ${row.access_method} ADD\n    ${loose.join(",\n    ")};`
+        );
+      }
+      return parts;
+    };
+
+    // Explicit families come before the classes that reference them
+    for (const row of families) {
+      if (!this.shouldIncludeSchema(row.schema_name) || row.implicit) {
+        continue;
+      }
+      const key = `family.${row.access_method}.${row.schema_name}.${row.family_name}`;
+      this.save("operators", key, familyDdl(row, true).join("\n\n"));
+      count++;
+    }
+
+    for (const row of classes) {
+      if (!this.shouldIncludeSchema(row.schema_name)) {
+        continue;
+      }
+      const name = `${row.schema_name}.${row.class_name}`;
+      let header = `CREATE OPERATOR CLASS ${name}${row.opcdefault ? " DEFAULT" : ""}`;
+      header += ` FOR TYPE ${row.input_type} USING ${row.access_method}`;
+      if (row.family_schema !== row.schema_name || row.family_name !== row.class_name) {
+        header += ` FAMILY ${row.family_schema}.${row.family_name}`;
+      }
+      const items = membersOf("pg_opclass", row.oid);
+      if (row.storage_type) items.push(`STORAGE ${row.storage_type}`);
+      const ddl = this.withOwner(
+        `${header} AS\n    ${items.join(",\n    ")};`,
+        `OPERATOR CLASS ${name} USING ${row.access_method}`,
+        row.owner
+      );
+      this.save("operators", `class.${row.access_method}.${name}`, ddl);
+      count++;
+    }
+
+    // Loose members of implicit families can only be added once the class exists
+    for (const row of families) {
+      if (!this.shouldIncludeSchema(row.schema_name) || !row.implicit) {
+        continue;
+      }
+      const parts = familyDdl(row, false);
+      if (parts.length === 0) {
+        continue;
+      }
+      const key = `family.${row.access_method}.${row.schema_name}.${row.family_name}`;
+      this.save("operators", key, parts.join("\n\n"));
+      count++;
+    }
+
+    this.log("operators", count);
+  }
+
+  // ─── CASTS ──────────────────────────────────────────────────────
+
+  private async extractCasts(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT
+        pg_catalog.format_type(c.castsource, NULL) AS source_type,
+        pg_catalog.format_type(c.casttarget, NULL) AS target_type,
+        CASE WHEN c.castfunc <> 0 THEN c.castfunc::regprocedure::text END AS function_name,
+        c.castcontext,
+        c.castmethod
+      FROM pg_cast c
+      WHERE c.oid >= 16384
+        AND ${notExtensionMember("pg_cast", "c.oid")}
+        -- Casts CREATE TYPE makes itself, e.g. range to multirange
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_depend d
+          WHERE d.classid = 'pg_cast'::regclass AND d.objid = c.oid AND d.deptype = 'i'
+        )
+      ORDER BY source_type, target_type;
+    `);
+
+    const contexts: Record<string, string> = { a: " AS ASSIGNMENT", i: " AS IMPLICIT" };
+
+    for (const row of rows) {
+      const method =
+        row.castmethod === "f"
+          ? `WITH FUNCTION ${row.function_name}`
+          : row.castmethod === "i"
+            ? "WITH INOUT"
+            : "WITHOUT FUNCTION";
+      const name = `${row.source_type} AS ${row.target_type}`;
+      const ddl = `CREATE CAST (${name}) ${method}${contexts[row.castcontext] || ""};`;
+      this.save("casts", name, ddl);
+    }
+    this.log("casts", rows.length);
+  }
+
+  // ─── TEXT SEARCH (parsers, templates, dictionaries, configurations)
 
-      const ddl = `${row.definition};`;
-      this.save("functions", objectName, ddl);
+  private async extractTextSearch(): Promise<void> {
+    let count = 0;
+
+    const { rows: parsers } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        p.prsname AS object_name,
+        p.prsstart::regproc::text AS start_fn,
+        p.prstoken::regproc::text AS token_fn,
+        p.prsend::regproc::text AS end_fn,
+        p.prslextype::regproc::text AS lextypes_fn,
+        CASE WHEN p.prsheadline::oid <> 0 THEN p.prsheadline::regproc::text END AS headline_fn
+      FROM pg_ts_parser p
+      JOIN pg_namespace n ON n.oid = p.prsnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_ts_parser", "p.oid")}
+      ORDER BY n.nspname, p.prsname;
+    `);
+
+    for (const row of parsers) {
+      if (!this.shouldIncludeSchema(row.schema_name)) continue;
+      const options = [
+        `START = ${row.start_fn}`,
+        `GETTOKEN = ${row.token_fn}`,
+        `END = ${row.end_fn}`,
+        `LEXTYPES = ${row.lextypes_fn}`,
+      ];
+      if (row.headline_fn) options.push(`HEADLINE = ${row.headline_fn}`);
+      const name = `${row.schema_name}.${row.object_name}`;
+      const ddl = `CREATE TEXT SEARCH PARSER ${name} (\n    ${options.join(",\n    ")}\n);`;
+      this.save("text_search", `parser.${name}`, ddl);
       count++;
     }
-    this.log("functions", count);
+
+    const { rows: templates } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        t.tmplname AS object_name,
+        CASE WHEN t.tmplinit::oid <> 0 THEN t.tmplinit::regproc::text END AS init_fn,
+        t.tmpllexize::regproc::text AS lexize_fn
+      FROM pg_ts_template t
+      JOIN pg_namespace n ON n.oid = t.tmplnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_ts_template", "t.oid")}
+      ORDER BY n.nspname, t.tmplname;
+    `);
+
+    for (const row of templates) {
+      if (!this.shouldIncludeSchema(row.schema_name)) continue;
+      const options = row.init_fn ? [`INIT = ${row.init_fn}`] : [];
+      options.push(`LEXIZE = ${row.lexize_fn}`);
+      const name = `${row.schema_name}.${row.object_name}`;
+      const ddl = `CREATE TEXT SEARCH TEMPLATE ${name} (\n    ${options.join(",\n    ")}\n);`;
+      this.save("text_search", `template.${name}`, ddl);
+      count++;
+    }
+
+    const { rows: dictionaries } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        d.dictname AS object_name,
+        quote_ident(tn.nspname) || '.' || quote_ident(t.tmplname) AS template_name,
+        d.dictinitoption,
+        pg_get_userbyid(d.dictowner) AS owner
+      FROM pg_ts_dict d
+      JOIN pg_namespace n ON n.oid = d.dictnamespace
+      JOIN pg_ts_template t ON t.oid = d.dicttemplate
+      JOIN pg_namespace tn ON tn.oid = t.tmplnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_ts_dict", "d.oid")}
+      ORDER BY n.nspname, d.dictname;
+    `);
+
+    for (const row of dictionaries) {
+      if (!this.shouldIncludeSchema(row.schema_name)) continue;
+      const options = [`TEMPLATE = ${row.template_name}`];
+      if (row.dictinitoption) options.push(row.dictinitoption);
+      const name = `${row.schema_name}.${row.object_name}`;
+      const ddl = `CREATE TEXT SEARCH DICTIONARY ${name} (\n    ${options.join(",\n    ")}\n);`;
+      const target = `TEXT SEARCH DICTIONARY ${name}`;
+      this.save("text_search", `dictionary.${name}`, this.withOwner(ddl, target, row.owner));
+      count++;
+    }
+
+    const { rows: configurations } = await this.client.query(`
+      SELECT
+        c.oid,
+        n.nspname AS schema_name,
+        c.cfgname AS object_name,
+        quote_ident(pn.nspname) || '.' || quote_ident(p.prsname) AS parser_name,
+        pg_get_userbyid(c.cfgowner) AS owner
+      FROM pg_ts_config c
+      JOIN pg_namespace n ON n.oid = c.cfgnamespace
+      JOIN pg_ts_parser p ON p.oid = c.cfgparser
+      JOIN pg_namespace pn ON pn.oid = p.prsnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_ts_config", "c.oid")}
+      ORDER BY n.nspname, c.cfgname;
+    `);
+
+    // Dictionaries per token type, in lookup order
+    const { rows: mappings } = await this.client.query(`
+      SELECT
+        m.mapcfg,
+        tt.alias AS token_type,
+        string_agg(quote_ident(dn.nspname) || '.' || quote_ident(d.dictname), ', ' ORDER BY m.mapseqno) AS dictionaries
+      FROM pg_ts_config_map m
+      JOIN pg_ts_config c ON c.oid = m.mapcfg
+      JOIN pg_ts_dict d ON d.oid = m.mapdict
+      JOIN pg_namespace dn ON dn.oid = d.dictnamespace
+      JOIN LATERAL ts_token_type(c.cfgparser) tt ON tt.tokid = m.maptokentype
+      GROUP BY m.mapcfg, m.maptokentype, tt.alias
+      ORDER BY m.mapcfg, m.maptokentype;
+    `);
+
+    for (const row of configurations) {
+      if (!this.shouldIncludeSchema(row.schema_name)) continue;
+      const name = `${row.schema_name}.${row.object_name}`;
+      const parts = [`CREATE TEXT SEARCH CONFIGURATION ${name} (PARSER = ${row.parser_name});`];
+
+      // One ADD MAPPING per distinct dictionary list
+      const byDictionaries = new Map<string, string[]>();
+      for (const m of mappings.filter((m) => Number(m.mapcfg) === Number(row.oid))) {
+        if (!byDictionaries.has(m.dictionaries)) byDictionaries.set(m.dictionaries, []);
+        byDictionaries.get(m.dictionaries)!.push(m.token_type);
+      }
+      for (const [dicts, tokens] of byDictionaries) {
+        parts.push(
+          `ALTER TEXT SEARCH CONFIGURATION ${name}\n    ADD MAPPING FOR ${tokens.join(", ")} WITH ${dicts};`
+        );
+      }
+      const ddl = this.withOwner(parts.join("\n"), `TEXT SEARCH CONFIGURATION ${name}`, row.owner);
+      this.save("text_search", `configuration.${name}`, ddl);
+      count++;
+    }
+
+    this.log("text_search", count);
   }
 
   // ─── TRIGGERS ───────────────────────────────────────────────────
 
   private async extractTriggers(): Promise<void> {
-    const { rows } = await this.client.query(`
+    const version = await this.getServerVersion();
+    const { rows } = await this.client.query<TriggerRow>(`
       SELECT
-        trigger_schema AS schema_name,
-        trigger_name,
-        event_object_schema,
-        event_object_table,
-        action_statement,
-        action_timing,
-        event_manipulation,
-        action_orientation
-      FROM information_schema.triggers
-      WHERE trigger_schema NOT IN ${EXCLUDED_SCHEMAS}
-      ORDER BY trigger_schema, trigger_name;
-    `);
-
-    // Group by trigger name (one trigger can fire on multiple events)
-    const grouped = new Map<string, TriggerRow[]>();
+        n.nspname AS schema_name,
+        c.relname AS table_name,
+        t.tgname AS trigger_name,
+        pg_get_triggerdef(t.oid) AS definition,
+        t.tgenabled AS enabled,
+        obj_description(t.oid, 'pg_trigger') AS description
+      FROM pg_trigger t
+      JOIN pg_class c ON c.oid = t.tgrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE NOT t.tgisinternal
+        AND n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "c.oid")}
+        -- partitions get their copy of a parent's trigger automatically
+        ${version >= 130000 ? "AND t.tgparentid = 0" : ""}
+      ORDER BY n.nspname, c.relname, t.tgname;
+    `);
+
+    // tgenabled: O = origin (default), D = disabled, R = replica only, A = always
+    const states: Record<string, string> = {
+      D: "DISABLE",
+      R: "ENABLE REPLICA",
+      A: "ENABLE ALWAYS",
+    };
+
+    let count = 0;
     for (const row of rows) {
-      if (!this.shouldIncludeSchema(row.schema_name)) {
+      if (!this.shouldIncludeTable(row.schema_name, row.table_name)) {
         continue;
       }
-      const key = `${row.schema_name}.${row.trigger_name}`;
-      if (!grouped.has(key)) grouped.set(key, []);
-      grouped.get(key)!.push(row);
+      const table = `${row.schema_name}.${row.table_name}`;
+      let ddl = `${row.definition};`;
+      if (states[row.enabled]) {
+        ddl += `\nALTER TABLE ${table} ${states[row.enabled]} TRIGGER ${row.trigger_name};`;
+      }
+      const name = `${table}.${row.trigger_name}`;
+      const target = `TRIGGER ${row.trigger_name} ON ${table}`;
+      this.save("triggers", name, withComment(ddl, target, row.description));
+      count++;
     }
+    this.log("triggers", count);
+  }
 
-    for (const [key, events] of grouped) {
-      const first = events[0];
-      const eventList = events.map((e) => e.event_manipulation).join(" OR ");
-      const ddl = [
-        `CREATE TRIGGER ${first.trigger_name}`,
-        `    ${first.action_timing} ${eventList}`,
-        `    ON ${first.event_object_schema}.${first.event_object_table}`,
-        `    FOR EACH ${first.action_orientation}`,
-        `    ${first.action_statement};`,
-      ].join("\n");
-      this.save("triggers", key, ddl);
+  // ─── EVENT TRIGGERS ─────────────────────────────────────────────
+
+  private async extractEventTriggers(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT
+        e.evtname AS trigger_name,
+        e.evtevent AS event,
+        (SELECT string_agg(quote_literal(tag), ', ') FROM unnest(e.evttags) tag) AS tags,
+        quote_ident(n.nspname) || '.' || quote_ident(p.proname) AS function_name,
+        e.evtenabled AS enabled,
+        pg_get_userbyid(e.evtowner) AS owner
+      FROM pg_event_trigger e
+      JOIN pg_proc p ON p.oid = e.evtfoid
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE ${notExtensionMember("pg_event_trigger", "e.oid")}
+      ORDER BY e.evtname;
+    `);
+
+    // evtenabled: O = enabled (default), D = disabled, R = replica, A = always
+    const enableState: Record<string, string> = {
+      D: "DISABLE",
+      R: "ENABLE REPLICA",
+      A: "ENABLE ALWAYS",
+    };
+
+    for (const row of rows) {
+      const lines = [`CREATE EVENT TRIGGER ${row.trigger_name} ON ${row.event}`];
+      if (row.tags) lines.push(`    WHEN TAG IN (${row.tags})`);
+      lines.push(`    EXECUTE FUNCTION ${row.function_name}();`);
+      if (enableState[row.enabled]) {
+        lines.push(`ALTER EVENT TRIGGER ${row.trigger_name} ${enableState[row.enabled]};`);
+      }
+      const ddl = this.withOwner(lines.join("\n"), `EVENT TRIGGER ${row.trigger_name}`, row.owner);
+      this.save("event_triggers", row.trigger_name, ddl);
     }
-    this.log("triggers", grouped.size);
+    this.log("event_triggers", rows.length);
   }
 
-  // ─── INDEXES (non-pk, non-unique-constraint) ────────────────────
+  // ─── RULES ──────────────────────────────────────────────────────
 
-  private async extractIndexes(): Promise<void> {
+  private async extractRules(): Promise<void> {
     const { rows } = await this.client.query(`
       SELECT
         schemaname AS schema_name,
-        indexname AS index_name,
-        indexdef AS definition
-      FROM pg_indexes
+        tablename AS table_name,
+        rulename AS rule_name,
+        definition
+      FROM pg_rules
       WHERE schemaname NOT IN ${EXCLUDED_SCHEMAS}
-        -- skip indexes already represented by constraints
-        AND indexname NOT IN (
-          SELECT constraint_name
-          FROM information_schema.table_constraints
-          WHERE constraint_type IN ('PRIMARY KEY', 'UNIQUE')
-        )
-      ORDER BY schemaname, indexname;
+        AND ${notExtensionMember("pg_class", "format('%I.%I', schemaname, tablename)::regclass")}
+      ORDER BY schemaname, tablename, rulename;
     `);
 
+    let count = 0;
+    for (const row of rows) {
+      if (!this.shouldIncludeTable(row.schema_name, row.table_name)) {
+        continue;
+      }
+      // pg_get_ruledef already ends the statement with a semicolon
+      this.save("rules", `${row.schema_name}.${row.table_name}.${row.rule_name}`, row.definition);
+      count++;
+    }
+    this.log("rules", count);
+  }
+
+  // ─── INDEXES (non-constraint) ───────────────────────────────────
+
+  private async extractIndexes(): Promise<void> {
+    const rows = await this.fetchIndexes(false);
+
     let count = 0;
     for (const row of rows) {
       if (!this.shouldIncludeSchema(row.schema_name)) {
         continue;
       }
-      const ddl = `${row.definition};`;
-      this.save("indexes", `${row.schema_name}.${row.index_name}`, ddl);
+      this.save("indexes", `${row.schema_name}.${row.index_name}`, indexDdl(row));
       count++;
     }
     this.log("indexes", count);
   }
 
+  /** Indexes of materialized views, or of every other kind of relation */
+  private async fetchIndexes(onMatviews: boolean): Promise<IndexRow[]> {
+    const skipPartitions = this.options.partitions === "skip" ? "AND NOT c.relispartition" : "";
+    const { rows } = await this.client.query<IndexRow>(`
+      SELECT
+        n.nspname AS schema_name,
+        i.relname AS index_name,
+        c.relname AS table_name,
+        pg_get_indexdef(i.oid) AS definition,
+        obj_description(i.oid, 'pg_class') AS description,
+        t.spcname AS tablespace,
+        x.indpred IS NOT NULL AS partial
+      FROM pg_index x
+      JOIN pg_class c ON c.oid = x.indrelid
+      JOIN pg_class i ON i.oid = x.indexrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_tablespace t ON t.oid = i.reltablespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND c.relkind IN (${onMatviews ? "'m'" : "'r', 'p'"})
+        AND ${notExtensionMember("pg_class", "c.oid")}
+        -- skip partition indexes attached to a partitioned parent index
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_inherits ih
+          WHERE ih.inhrelid = i.oid
+        )
+        ${skipPartitions}
+        -- skip indexes already represented by constraints
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_constraint con
+          WHERE con.conindid = i.oid
+            AND con.contype IN ('p', 'u', 'x')
+        )
+      ORDER BY n.nspname, i.relname;
+    `);
+    return rows;
+  }
+
+  // ─── EXTENDED STATISTICS ────────────────────────────────────────
+
+  private async extractStatistics(): Promise<void> {
+    const version = await this.getServerVersion();
+    const { rows } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        s.stxname AS statistics_name,
+        tn.nspname AS table_schema,
+        c.relname AS table_name,
+        pg_get_statisticsobjdef(s.oid) AS definition,
+        ${version >= 130000 ? "NULLIF(s.stxstattarget, -1)" : "NULL"} AS stattarget,
+        obj_description(s.oid, 'pg_statistic_ext') AS description,
+        pg_get_userbyid(s.stxowner) AS owner
+      FROM pg_statistic_ext s
+      JOIN pg_namespace n ON n.oid = s.stxnamespace
+      JOIN pg_class c ON c.oid = s.stxrelid
+      JOIN pg_namespace tn ON tn.oid = c.relnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_statistic_ext", "s.oid")}
+      ORDER BY n.nspname, s.stxname;
+    `);
+
+    let count = 0;
+    for (const row of rows) {
+      if (!this.shouldIncludeTable(row.table_schema, row.table_name)) {
+        continue;
+      }
+      const name = `${row.schema_name}.${row.statistics_name}`;
+      let ddl = `${row.definition};`;
+      if (row.stattarget !== null) {
+        ddl += `\nALTER STATISTICS ${name} SET STATISTICS ${row.stattarget};`;
+      }
+      const withOwner = this.withOwner(ddl, `STATISTICS ${name}`, row.owner);
+      this.save("statistics", name, withComment(withOwner, `STATISTICS ${name}`, row.description));
+      count++;
+    }
+    this.log("statistics", count);
+  }
+
+  // ─── ROW LEVEL SECURITY POLICIES ─────────────────────────────────
+
+  private async extractPolicies(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT
+        schemaname AS schema_name,
+        tablename AS table_name,
+        policyname AS policy_name,
+        permissive,
+        array_to_string(roles, ', ') AS roles,
+        cmd,
+        qual,
+        with_check
+      FROM pg_policies
+      WHERE schemaname NOT IN ${EXCLUDED_SCHEMAS}
+      ORDER BY schemaname, tablename, policyname;
+    `);
+
+    let count = 0;
+    for (const row of rows) {
+      if (!this.shouldIncludeTable(row.schema_name, row.table_name)) {
+        continue;
+      }
+      const lines = [
+        `CREATE POLICY ${row.policy_name} ON ${row.schema_name}.${row.table_name}`,
+        `    AS ${row.permissive}`,
+        `    FOR ${row.cmd}`,
+        `    TO ${row.roles}`,
+      ];
+      if (row.qual !== null) lines.push(`    USING (${row.qual})`);
+      if (row.with_check !== null) lines.push(`    WITH CHECK (${row.with_check})`);
+      const ddl = lines.join("\n") + ";";
+      this.save("policies", `${row.schema_name}.${row.table_name}.${row.policy_name}`, ddl);
+      count++;
+    }
+    this.log("policies", count);
+  }
+
+  // ─── PRIVILEGES (GRANT / REVOKE / DEFAULT PRIVILEGES) ───────────
+
+  private async extractPrivileges(): Promise<void> {
+    const entries = await fetchPrivileges(this.client);
+    const relationKinds = ["table", "view", "materialized_view", "foreign_table", "sequence"];
+
+    // One file per object, statements in catalog order
+    const grouped = new Map<string, string[]>();
+    for (const entry of entries) {
+      const included =
+        entry.schema === null
+          ? true
+          : relationKinds.includes(entry.kind)
+            ? this.shouldIncludeTable(entry.schema, entry.name)
+            : this.shouldIncludeSchema(entry.schema);
+      if (!included) {
+        continue;
+      }
+      if (!grouped.has(entry.key)) grouped.set(entry.key, []);
+      grouped.get(entry.key)!.push(formatPrivilege(entry));
+    }
+
+    for (const [key, statements] of grouped) {
+      this.save("privileges", key, statements.join("\n"));
+    }
+    this.log("privileges", grouped.size);
+  }
+
+  // ─── LOGICAL REPLICATION (publications + subscriptions) ──────────
+
+  private async extractPublications(): Promise<void> {
+    const version = await this.getServerVersion();
+
+    const { rows: publications } = await this.client.query(`
+      SELECT
+        p.pubname,
+        p.puballtables,
+        p.pubinsert,
+        p.pubupdate,
+        p.pubdelete,
+        p.pubtruncate,
+        ${version >= 130000 ? "p.pubviaroot" : "false AS pubviaroot"},
+        pg_get_userbyid(p.pubowner) AS owner
+      FROM pg_publication p
+      ORDER BY p.pubname;
+    `);
+
+    // Row filters and column lists exist since PostgreSQL 15
+    const { rows: tables } = await this.client.query(`
+      SELECT
+        p.pubname,
+        n.nspname AS schema_name,
+        c.relname AS table_name,
+        ${
+          version >= 150000
+            ? `pg_get_expr(pr.prqual, pr.prrelid) AS row_filter,
+        (
+          SELECT string_agg(a.attname, ', ' ORDER BY a.attnum)
+          FROM pg_attribute a
+          WHERE a.attrelid = pr.prrelid AND a.attnum = ANY(pr.prattrs)
+        ) AS columns`
+            : "NULL AS row_filter, NULL AS columns"
+        }
+      FROM pg_publication_rel pr
+      JOIN pg_publication p ON p.oid = pr.prpubid
+      JOIN pg_class c ON c.oid = pr.prrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      ORDER BY n.nspname, c.relname;
+    `);
+
+    const { rows: schemas } =
+      version >= 150000
+        ? await this.client.query(`
+            SELECT p.pubname, n.nspname AS schema_name
+            FROM pg_publication_namespace pn
+            JOIN pg_publication p ON p.oid = pn.pnpubid
+            JOIN pg_namespace n ON n.oid = pn.pnnspid
+            ORDER BY n.nspname;
+          `)
+        : { rows: [] };
+
+    for (const pub of publications) {
+      // One published table or schema per line, so membership changes diff cleanly
+      const entries = tables
+        .filter((t) => t.pubname === pub.pubname)
+        .map((t) => {
+          let entry = `${t.schema_name}.${t.table_name}`;
+          if (t.columns) entry += ` (${t.columns})`;
+          if (t.row_filter) entry += ` WHERE (${t.row_filter})`;
+          return entry;
+        });
+      const schemaEntries = schemas
+        .filter((sc) => sc.pubname === pub.pubname)
+        .map((sc) => sc.schema_name);
+
+      let header = `CREATE PUBLICATION ${pub.pubname}`;
+      if (pub.puballtables) {
+        header += " FOR ALL TABLES";
+      } else if (entries.length > 0) {
+        header += " FOR TABLE";
+        if (schemaEntries.length > 0) schemaEntries[0] = `TABLES IN SCHEMA ${schemaEntries[0]}`;
+      } else if (schemaEntries.length > 0) {
+        header += " FOR TABLES IN SCHEMA";
+      }
+
+      const publish = [
+        pub.pubinsert && "insert",
+        pub.pubupdate && "update",
+        pub.pubdelete && "delete",
+        pub.pubtruncate && "truncate",
+      ].filter(Boolean);
+
+      const lines = [header];
+      const items = [...entries, ...schemaEntries];
+      if (items.length > 0) lines.push(`    ${items.join(",\n    ")}`);
+      lines.push(
+        `    WITH (publish = '${publish.join(", ")}', publish_via_partition_root = ${pub.pubviaroot});`
+      );
+      const target = `PUBLICATION ${pub.pubname}`;
+      this.save("publications", pub.pubname, this.withOwner(lines.join("\n"), target, pub.owner));
+    }
+    this.log("publications", publications.length);
+  }
+
+  private async extractSubscriptions(): Promise<void> {
+    let rows;
+    try {
+      ({ rows } = await tryQuery(
+        this.client,
+        `
+        SELECT
+          s.subname,
+          s.subenabled,
+          s.subslotname,
+          s.subsynccommit,
+          array_to_string(s.subpublications, ', ') AS publications,
+          pg_get_userbyid(s.subowner) AS owner
+        FROM pg_subscription s
+        WHERE s.subdbid = (SELECT oid FROM pg_database WHERE datname = current_database())
+        ORDER BY s.subname;
+      `
+      ));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.print(`  ⚠️  Cannot read subscriptions (${message}), skipping`);
+      return;
+    }
+
+    for (const row of rows) {
+      // The connection string carries credentials, so it is never written out
+      const options = ["connect = false"];
+      options.push(`slot_name = ${row.subslotname ? `'${row.subslotname}'` : "NONE"}`);
+      options.push(`synchronous_commit = '${row.subsynccommit}'`);
+      const lines = [
+        `CREATE SUBSCRIPTION ${row.subname}`,
+        `    CONNECTION '<redacted>'`,
+        `    PUBLICATION ${row.publications}`,
+        `    WITH (${options.join(", ")});`,
+      ];
+      if (row.subenabled) {
+        lines.push(`ALTER SUBSCRIPTION ${row.subname} ENABLE;`);
+      }
+      const target = `SUBSCRIPTION ${row.subname}`;
+      this.save("subscriptions", row.subname, this.withOwner(lines.join("\n"), target, row.owner));
+    }
+    this.log("subscriptions", rows.length);
+  }
+
+  // ─── EXTENSION CONFIGURATION (pg_partman, pg_cron) ──────────────
+
+  /** pg_partman parent tables, re-registered with create_parent() */
+  private async extractPartmanConfigs(): Promise<void> {
+    const partman = await this.extensionSchema("pg_partman");
+    if (partman === null) return;
+
+    const { rows } = await this.client.query(`
+      SELECT
+        parent_table,
+        control,
+        partition_interval,
+        partition_type,
+        premake,
+        epoch,
+        automatic_maintenance,
+        retention,
+        retention_keep_table,
+        infinite_time_partitions
+      FROM ${partman}.part_config
+      ORDER BY parent_table;
+    `);
+
+    const quote = (v: string) => `'${v.replace(/'/g, "''")}'`;
+    let count = 0;
+    for (const row of rows) {
+      const [schema, table] = row.parent_table.split(".");
+      if (!this.shouldIncludeTable(schema, table)) {
+        continue;
+      }
+      const args = [
+        `p_parent_table => ${quote(row.parent_table)}`,
+        `p_control => ${quote(row.control)}`,
+        `p_interval => ${quote(row.partition_interval)}`,
+        `p_type => ${quote(row.partition_type)}`,
+        `p_premake => ${row.premake}`,
+        `p_epoch => ${quote(row.epoch)}`,
+        `p_automatic_maintenance => ${quote(row.automatic_maintenance)}`,
+      ];
+      const settings = [
+        `retention = ${row.retention === null ? "NULL" : quote(row.retention)}`,
+        `retention_keep_table = ${row.retention_keep_table}`,
+        `infinite_time_partitions = ${row.infinite_time_partitions}`,
+      ];
+      const ddl = [
+        `SELECT ${partman}.create_parent(`,
+        args.map((a) => `    ${a}`).join(",\n"),
+        ");",
+        `UPDATE ${partman}.part_config`,
+        `    SET ${settings.join(", ")}`,
+        `    WHERE parent_table = ${quote(row.parent_table)};`,
+      ].join("\n");
+      this.save("partman_configs", row.parent_table, ddl);
+      count++;
+    }
+    this.log("partman_configs", count);
+  }
+
+  /** pg_cron jobs, re-created with cron.schedule() */
+  private async extractCronJobs(): Promise<void> {
+    const cron = await this.extensionSchema("pg_cron");
+    if (cron === null) return;
+
+    // jobname only exists from pg_cron 1.3 on, so select the whole row
+    const { rows } = await this.client.query(`
+      SELECT j.*, j.database = current_database() AS local
+      FROM ${cron}.job j
+      ORDER BY j.jobid;
+    `);
+
+    const quote = (v: string) => `'${v.replace(/'/g, "''")}'`;
+    for (const row of rows) {
+      // Unnamed jobs are keyed by id, which is not stable across databases
+      const name = row.jobname || `job_${row.jobid}`;
+      const args = [quote(row.schedule), quote(row.command)];
+
+      let ddl: string;
+      if (!row.local || row.active === false) {
+        // schedule_in_database() needs a job name, so unnamed jobs get their file name
+        args.unshift(quote(name));
+        args.push(quote(row.database), quote(row.username), String(row.active ?? true));
+        ddl = `SELECT ${cron}.schedule_in_database(${args.join(", ")});`;
+      } else {
+        if (row.jobname) args.unshift(quote(row.jobname));
+        ddl = `SELECT ${cron}.schedule(${args.join(", ")});`;
+      }
+      this.save("cron_jobs", name, ddl);
+    }
+    this.log("cron_jobs", rows.length);
+  }
+
   // ─── Helpers ────────────────────────────────────────────────────
 
+  /** Schema of an installed extension, or null when it is not installed */
+  private async extensionSchema(extension: string): Promise<string | null> {
+    const { rows } = await this.client.query(
+      `
+      SELECT n.nspname
+      FROM pg_extension e
+      JOIN pg_namespace n ON n.oid = e.extnamespace
+      WHERE e.extname = $1;
+    `,
+      [extension]
+    );
+    return rows.length > 0 ? rows[0].nspname : null;
+  }
+
+  private async getServerVersion(): Promise<number> {
+    if (this.serverVersion === null) {
+      const { rows } = await this.client.query(
+        "SELECT current_setting('server_version_num')::int AS version;"
+      );
+      this.serverVersion = rows[0].version as number;
+    }
+    return this.serverVersion;
+  }
+
   /**
    * Check if a schema should be included based on filters
    */
@@ -632,6 +2504,47 @@ export class DdlExtractor {
     return this.shouldIncludeSchema(schemaName);
   }
 
+  /** Append ALTER ... OWNER TO for the object, applying the configured owner map */
+  private withOwner(ddl: string, target: string, owner: string | null): string {
+    const mapped = owner === null ? null : mapOwner(owner, this.options.ownerMap);
+    return mapped === null ? ddl : `${ddl}\n\nALTER ${target} OWNER TO ${mapped};`;
+  }
+
+  /** Column descriptions of relations of the given kinds, keyed by "schema.relation" */
+  private async fetchColumnComments(relkinds: string[]): Promise<Map<string, string[]>> {
+    const { rows } = await this.client.query(
+      `
+      SELECT
+        n.nspname || '.' || c.relname AS relation,
+        a.attname AS column_name,
+        d.description
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      JOIN pg_description d
+        ON d.objoid = c.oid AND d.classoid = 'pg_class'::regclass AND d.objsubid = a.attnum
+      WHERE c.relkind = ANY($1)
+        AND n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+      ORDER BY relation, a.attnum;
+    `,
+      [relkinds]
+    );
+
+    const comments = new Map<string, string[]>();
+    for (const row of rows) {
+      if (!comments.has(row.relation)) comments.set(row.relation, []);
+      comments
+        .get(row.relation)!
+        .push(commentOn(`COLUMN ${row.relation}.${row.column_name}`, row.description));
+    }
+    return comments;
+  }
+
+  private appendColumnComments(ddl: string, name: string, comments: Map<string, string[]>): string {
+    const statements = comments.get(name);
+    return statements ? `${ddl}\n\n${statements.join("\n")}` : ddl;
+  }
+
   private save(category: ObjectCategory, name: string, ddl: string): void {
     this.writer.write(category, name, ddl);
     this.allDdl.push(`-- [${category.toUpperCase()}] ${name}\n${ddl}`);
@@ -640,16 +2553,43 @@ export class DdlExtractor {
   private log(category: string, count: number): void {
     const icon =
       {
+        database_settings: "🗄️",
+        extensions: "🧩",
         schemas: "🗂️",
         types: "🏷️",
         sequences: "🔢",
+        sequence_values: "🔢",
         tables: "📋",
+        foreign_data_wrappers: "🔌",
+        foreign_servers: "🖥️",
+        user_mappings: "🪪",
+        foreign_tables: "🌍",
         views: "👁️",
         materialized_views: "👁️",
         functions: "⚙️",
+        procedures: "🛠️",
+        aggregates: "∑",
+        collations: "🔤",
+        operators: "➕",
+        casts: "🔁",
+        text_search: "🔎",
         triggers: "⚡",
+        event_triggers: "🎯",
+        rules: "📏",
         indexes: "🔍",
+        statistics: "📊",
+        policies: "🛡️",
+        privileges: "🔑",
+        publications: "📣",
+        subscriptions: "📥",
+        partman_configs: "🧱",
+        cron_jobs: "⏰",
       }[category] || "📄";
-    console.log(`  ${icon}  ${category.padEnd(22)} ${count}`);
+    this.print(`  ${icon}  ${category.padEnd(22)} ${count}`);
+  }
+
+  private print(line: string): void {
+    if (this.output) this.output.push(line);
+    else console.log(line);
   }
 }
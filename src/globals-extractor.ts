@@ -0,0 +1,206 @@
+import { Client } from "pg";
+import { SqlFileWriter, ObjectCategory } from "./writer";
+import { tryQuery } from "./pool";
+
+// ─── Types ────────────────────────────────────────────────────
+
+export interface GlobalsExtractionOptions {
+  /** Include password hashes from pg_authid (requires superuser) */
+  withPasswords?: boolean;
+}
+
+// Settings that take a list of values and must be quoted per element
+const LIST_SETTINGS = [
+  "search_path",
+  "temp_tablespaces",
+  "session_preload_libraries",
+  "local_preload_libraries",
+  "shared_preload_libraries",
+];
+
+/**
+ * Render a "name=value" entry from pg_db_role_setting.setconfig as the
+ * `SET name TO ...` part of an ALTER ROLE / ALTER DATABASE statement.
+ */
+export function formatSetting(config: string): string {
+  const eq = config.indexOf("=");
+  const name = config.slice(0, eq);
+  const value = config.slice(eq + 1);
+  const quote = (v: string) => `'${v.replace(/'/g, "''")}'`;
+
+  if (LIST_SETTINGS.includes(name)) {
+    const items = value.split(",").map((v) => quote(v.trim().replace(/^"(.*)"$/, "$1")));
+    return `SET ${name} TO ${items.join(", ")}`;
+  }
+  return `SET ${name} TO ${quote(value)}`;
+}
+
+// ─── Globals Extractor ────────────────────────────────────────
+
+/**
+ * Extracts cluster-level objects shared by all databases:
+ * roles (with their settings), role memberships and tablespaces.
+ */
+export class GlobalsExtractor {
+  private client: Client;
+  private writer: SqlFileWriter;
+  private options: GlobalsExtractionOptions;
+
+  constructor(client: Client, writer: SqlFileWriter, options: GlobalsExtractionOptions = {}) {
+    this.client = client;
+    this.writer = writer;
+    this.options = options;
+  }
+
+  /** Run globals extraction */
+  async extractAll(): Promise<void> {
+    console.log("\n🌐 Extracting cluster globals...\n");
+
+    await this.extractRoles();
+    await this.extractRoleMemberships();
+    await this.extractTablespaces();
+  }
+
+  // ─── ROLES ──────────────────────────────────────────────────────
+
+  private async extractRoles(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT
+        r.rolname,
+        r.rolsuper,
+        r.rolinherit,
+        r.rolcreaterole,
+        r.rolcreatedb,
+        r.rolcanlogin,
+        r.rolreplication,
+        r.rolbypassrls,
+        r.rolconnlimit,
+        r.rolvaliduntil::text AS rolvaliduntil
+      FROM pg_roles r
+      WHERE r.rolname !~ '^pg_'
+      ORDER BY r.rolname;
+    `);
+
+    const passwords = this.options.withPasswords ? await this.getPasswordHashes() : new Map();
+
+    // Per-role settings that apply to all databases
+    const { rows: settings } = await this.client.query(`
+      SELECT r.rolname, unnest(s.setconfig) AS config
+      FROM pg_db_role_setting s
+      JOIN pg_roles r ON r.oid = s.setrole
+      WHERE s.setdatabase = 0
+      ORDER BY r.rolname;
+    `);
+
+    for (const row of rows) {
+      const attrs = [
+        row.rolsuper ? "SUPERUSER" : "NOSUPERUSER",
+        row.rolinherit ? "INHERIT" : "NOINHERIT",
+        row.rolcreaterole ? "CREATEROLE" : "NOCREATEROLE",
+        row.rolcreatedb ? "CREATEDB" : "NOCREATEDB",
+        row.rolcanlogin ? "LOGIN" : "NOLOGIN",
+        row.rolreplication ? "REPLICATION" : "NOREPLICATION",
+        row.rolbypassrls ? "BYPASSRLS" : "NOBYPASSRLS",
+      ];
+      if (row.rolconnlimit !== -1) attrs.push(`CONNECTION LIMIT ${row.rolconnlimit}`);
+      if (row.rolvaliduntil) attrs.push(`VALID UNTIL '${row.rolvaliduntil}'`);
+      if (passwords.has(row.rolname)) attrs.push(`PASSWORD '${passwords.get(row.rolname)}'`);
+
+      const parts = [`CREATE ROLE ${row.rolname} WITH ${attrs.join(" ")};`];
+      for (const s of settings.filter((s) => s.rolname === row.rolname)) {
+        parts.push(`ALTER ROLE ${row.rolname} ${formatSetting(s.config)};`);
+      }
+      this.save("roles", row.rolname, parts.join("\n"));
+    }
+    this.log("roles", rows.length);
+  }
+
+  private async getPasswordHashes(): Promise<Map<string, string>> {
+    try {
+      const { rows } = await tryQuery(
+        this.client,
+        `
+        SELECT rolname, rolpassword
+        FROM pg_authid
+        WHERE rolpassword IS NOT NULL;
+      `
+      );
+      return new Map(rows.map((r) => [r.rolname, r.rolpassword]));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.log(`  ⚠️  Cannot read password hashes (${message}), skipping`);
+      return new Map();
+    }
+  }
+
+  // ─── ROLE MEMBERSHIPS ───────────────────────────────────────────
+
+  private async extractRoleMemberships(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT
+        m.rolname AS member,
+        r.rolname AS role_name,
+        am.admin_option
+      FROM pg_auth_members am
+      JOIN pg_roles r ON r.oid = am.roleid
+      JOIN pg_roles m ON m.oid = am.member
+      WHERE m.rolname !~ '^pg_'
+      ORDER BY m.rolname, r.rolname;
+    `);
+
+    // One file per member role, listing everything it is granted
+    const grouped = new Map<string, string[]>();
+    for (const row of rows) {
+      const admin = row.admin_option ? " WITH ADMIN OPTION" : "";
+      if (!grouped.has(row.member)) grouped.set(row.member, []);
+      grouped.get(row.member)!.push(`GRANT ${row.role_name} TO ${row.member}${admin};`);
+    }
+
+    for (const [member, grants] of grouped) {
+      this.save("role_memberships", member, grants.join("\n"));
+    }
+    this.log("role_memberships", grouped.size);
+  }
+
+  // ─── TABLESPACES ────────────────────────────────────────────────
+
+  private async extractTablespaces(): Promise<void> {
+    const { rows } = await this.client.query(`
+      SELECT
+        spcname,
+        pg_get_userbyid(spcowner) AS owner,
+        pg_tablespace_location(oid) AS location,
+        array_to_string(spcoptions, ', ') AS options
+      FROM pg_tablespace
+      WHERE spcname NOT IN ('pg_default', 'pg_global')
+      ORDER BY spcname;
+    `);
+
+    for (const row of rows) {
+      const parts = [
+        `CREATE TABLESPACE ${row.spcname} OWNER ${row.owner} LOCATION '${row.location}';`,
+      ];
+      if (row.options) {
+        parts.push(`ALTER TABLESPACE ${row.spcname} SET (${row.options});`);
+      }
+      this.save("tablespaces", row.spcname, parts.join("\n"));
+    }
+    this.log("tablespaces", rows.length);
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────────
+
+  private save(category: ObjectCategory, name: string, ddl: string): void {
+    this.writer.write(category, name, ddl);
+  }
+
+  private log(category: string, count: number): void {
+    const icon =
+      {
+        roles: "👤",
+        role_memberships: "👥",
+        tablespaces: "💾",
+      }[category] || "📄";
+    console.log(`  ${icon}  ${category.padEnd(22)} ${count}`);
+  }
+}
@@ -1,6 +1,8 @@
 // Public API exports
-export { SqlFileWriter, ObjectCategory } from "./writer";
+export { SqlFileWriter, ObjectCategory, writeManifest } from "./writer";
+export type { ExtractionManifest } from "./writer";
 export { DdlExtractor, ExtractionFilters } from "./extractor";
+export { DumpExtractor } from "./dump-extractor";
 export { getDbConfig } from "./config";
 export { getSshConfig, createSshTunnel } from "./tunnel";
 export {
@@ -35,8 +37,21 @@ export { PreMigrationChecker, printPreCheckReport } from "./pre-check";
 export { MigrationTracker } from "./migration-tracker";
 export { SnapshotManager, getObjectHashes } from "./snapshot";
 export { ProgressBar, Spinner } from "./progress";
-export { createPool, withPoolClient, parallelQuery } from "./pool";
-export type { PoolOptions } from "./pool";
+export {
+  createPool,
+  withPoolClient,
+  parallelQuery,
+  beginSnapshot,
+  endSnapshot,
+  tryQuery,
+  openWorkerPool,
+  closeWorkerPool,
+  withWorker,
+  parallelWorkers,
+} from "./pool";
+export type { PoolOptions, WorkerPool, SnapshotInfo } from "./pool";
+export type { CompareOptions } from "./compare";
+export type { OwnerMap } from "./owners";
 export type { MigrationRecord } from "./migration-tracker";
 
 // Re-export types
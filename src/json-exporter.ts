@@ -1,7 +1,9 @@
 import * as fs from "fs";
 import * as path from "path";
-import { Client } from "pg";
-import { ExtractionFilters } from "./extractor";
+import { ClientBase } from "pg";
+import { ExtractionFilters, ExtractionOptions, notExtensionMember } from "./extractor";
+import { fetchPrivileges, PrivilegeObjectKind } from "./privileges";
+import { withWorker } from "./pool";
 
 const EXCLUDED_SCHEMAS = `('pg_catalog', 'information_schema', 'pg_toast')`;
 
@@ -11,6 +13,7 @@ export interface SchemaJson {
     database: string;
     version: string;
   };
+  extensions: ExtensionJson[];
   schemas: string[];
   types: TypeJson[];
   sequences: SequenceJson[];
@@ -20,14 +23,28 @@ export interface SchemaJson {
   functions: FunctionJson[];
   triggers: TriggerJson[];
   indexes: IndexJson[];
+  privileges: PrivilegeJson[];
+}
+
+interface ExtensionJson {
+  name: string;
+  schema: string;
+  version: string;
 }
 
 interface TypeJson {
   schema: string;
   name: string;
-  type: "enum" | "composite";
+  type: "enum" | "composite" | "domain" | "range";
   labels?: string[];
   attributes?: string;
+  baseType?: string;
+  collation?: string | null;
+  default?: string | null;
+  notNull?: boolean;
+  constraints?: { name: string; definition: string }[];
+  subtype?: string;
+  subtypeDiff?: string | null;
 }
 
 interface SequenceJson {
@@ -67,6 +84,9 @@ interface TableJson {
   comment: string | null;
   rowEstimate?: number;
   size?: string;
+  partitionKey?: string;
+  partitionOf?: string;
+  partitionBound?: string;
 }
 
 interface ViewJson {
@@ -78,6 +98,8 @@ interface ViewJson {
 interface FunctionJson {
   schema: string;
   name: string;
+  arguments: string;
+  kind: "function" | "procedure";
   definition: string;
 }
 
@@ -97,21 +119,63 @@ interface IndexJson {
   definition: string;
 }
 
+interface PrivilegeJson {
+  kind: PrivilegeObjectKind;
+  schema: string | null;
+  name: string;
+  action: "GRANT" | "REVOKE";
+  target: string;
+  grantee: string;
+  privileges: string[];
+  grantable: boolean;
+}
+
 // ─── Query row types ──────────────────────────────────────────
 interface SchemaRow { schema_name: string }
 interface SequenceRow { schema_name: string; sequence_name: string; start_value: string; minimum_value: string; maximum_value: string; increment: string; cycle_option: string }
-interface ColumnCommentRow { column_name: string; description: string }
-interface ColumnTypeRow { data_type: string; udt_name: string; character_maximum_length: number | null; numeric_precision: number | null; numeric_scale: number | null; column_name: string; is_nullable: string; column_default: string | null }
+interface ColumnCommentRow { relation: string; column_name: string; description: string }
+interface KeyRow { relation: string; constraint_type: string; constraint_name: string; columns: string }
+interface ForeignKeyRow { relation: string; constraint_name: string; columns: string; ref_schema: string; ref_table: string; ref_columns: string; update_rule: string; delete_rule: string }
+interface CheckRow { relation: string; constraint_name: string; check_clause: string }
+interface StatsRow { relation: string; row_estimate: string; total_size: string }
+interface ColumnTypeRow { relation: string; data_type: string; udt_name: string; character_maximum_length: number | null; numeric_precision: number | null; numeric_scale: number | null; column_name: string; is_nullable: string; column_default: string | null }
 interface NamedDefRow { schema_name: string; view_name?: string; function_name?: string; index_name?: string; definition: string }
+interface FunctionRow { schema_name: string; function_name: string; arguments: string; prokind: string; definition: string }
 interface TriggerRow { schema_name: string; trigger_name: string; event_object_schema: string; event_object_table: string; action_statement: string; action_timing: string; event_manipulation: string; action_orientation: string }
 
+/** Catalog rows of all exported tables, fetched once and keyed by "schema.table" */
+interface TableCatalog {
+  columns: Map<string, ColumnTypeRow[]>;
+  comments: Map<string, ColumnCommentRow[]>;
+  keys: Map<string, KeyRow[]>;
+  fks: Map<string, ForeignKeyRow[]>;
+  checks: Map<string, CheckRow[]>;
+  stats: Map<string, StatsRow>;
+}
+
+/** Group rows by their "schema.relation" name, keeping query order */
+function groupByRelation<T extends { relation: string }>(rows: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    if (!groups.has(row.relation)) groups.set(row.relation, []);
+    groups.get(row.relation)!.push(row);
+  }
+  return groups;
+}
+
 export class JsonExporter {
-  private client: Client;
+  private client: ClientBase;
   private filters: ExtractionFilters;
+  private options: ExtractionOptions;
 
-  constructor(client: Client, filters: ExtractionFilters = {}) {
+  constructor(
+    client: ClientBase,
+    filters: ExtractionFilters = {},
+    options: ExtractionOptions = {}
+  ) {
     this.client = client;
     this.filters = filters;
+    this.options = options;
   }
 
   async export(): Promise<SchemaJson> {
@@ -119,24 +183,53 @@ export class JsonExporter {
 
     const { rows: vr } = await this.client.query("SELECT version(), current_database();");
 
+    const [
+      extensions,
+      schemas,
+      types,
+      sequences,
+      tables,
+      views,
+      materializedViews,
+      functions,
+      triggers,
+      indexes,
+      privileges,
+    ] = await Promise.all([
+      this.run((e) => e.extractExtensions()),
+      this.run((e) => e.extractSchemas()),
+      this.run((e) => e.extractTypes()),
+      this.run((e) => e.extractSequences()),
+      this.run((e) => e.extractTables()),
+      this.run((e) => e.extractViews()),
+      this.run((e) => e.extractMaterializedViews()),
+      this.run((e) => e.extractFunctions()),
+      this.run((e) => e.extractTriggers()),
+      this.run((e) => e.extractIndexes()),
+      this.run((e) => e.extractPrivileges()),
+    ]);
+
     const result: SchemaJson = {
       metadata: {
         exportedAt: new Date().toISOString(),
         database: vr[0].current_database,
         version: vr[0].version.split(",")[0],
       },
-      schemas: await this.extractSchemas(),
-      types: await this.extractTypes(),
-      sequences: await this.extractSequences(),
-      tables: await this.extractTables(),
-      views: await this.extractViews(),
-      materializedViews: await this.extractMaterializedViews(),
-      functions: await this.extractFunctions(),
-      triggers: await this.extractTriggers(),
-      indexes: await this.extractIndexes(),
+      extensions,
+      schemas,
+      types,
+      sequences,
+      tables,
+      views,
+      materializedViews,
+      functions,
+      triggers,
+      indexes,
+      privileges,
     };
 
     const total =
+      result.extensions.length +
       result.schemas.length +
       result.types.length +
       result.sequences.length +
@@ -145,8 +238,10 @@ export class JsonExporter {
       result.materializedViews.length +
       result.functions.length +
       result.triggers.length +
-      result.indexes.length;
+      result.indexes.length +
+      result.privileges.length;
 
+    console.log(`  🧩  extensions             ${result.extensions.length}`);
     console.log(`  🗂️  schemas                ${result.schemas.length}`);
     console.log(`  🏷️  types                  ${result.types.length}`);
     console.log(`  🔢  sequences              ${result.sequences.length}`);
@@ -156,6 +251,7 @@ export class JsonExporter {
     console.log(`  ⚙️  functions              ${result.functions.length}`);
     console.log(`  ⚡  triggers               ${result.triggers.length}`);
     console.log(`  🔍  indexes                ${result.indexes.length}`);
+    console.log(`  🔑  privileges             ${result.privileges.length}`);
     console.log(`\n  Total: ${total} objects`);
 
     return result;
@@ -180,6 +276,15 @@ export class JsonExporter {
     return filepath;
   }
 
+  /** Run a category on a worker connection when --jobs is set, else on this client */
+  private run<T>(fn: (e: JsonExporter) => Promise<T>): Promise<T> {
+    const workers = this.options.workers;
+    if (!workers) return fn(this);
+    return withWorker(workers, (client) =>
+      fn(new JsonExporter(client, this.filters, this.options))
+    );
+  }
+
   private shouldIncludeSchema(schemaName: string): boolean {
     if (this.filters.includeSchemas && this.filters.includeSchemas.length > 0) {
       return this.filters.includeSchemas.includes(schemaName);
@@ -201,11 +306,22 @@ export class JsonExporter {
     return this.shouldIncludeSchema(schemaName);
   }
 
+  private async extractExtensions(): Promise<ExtensionJson[]> {
+    const { rows } = await this.client.query(`
+      SELECT e.extname AS name, n.nspname AS schema, e.extversion AS version
+      FROM pg_extension e
+      JOIN pg_namespace n ON n.oid = e.extnamespace
+      ORDER BY e.extname;
+    `);
+    return rows.filter((r: ExtensionJson) => this.shouldIncludeSchema(r.schema));
+  }
+
   private async extractSchemas(): Promise<string[]> {
     const { rows } = await this.client.query(`
       SELECT nspname AS schema_name
       FROM pg_namespace
       WHERE nspname NOT LIKE 'pg_%' AND nspname != 'information_schema'
+        AND ${notExtensionMember("pg_namespace", "pg_namespace.oid")}
       ORDER BY nspname;
     `);
     return rows
@@ -225,6 +341,7 @@ export class JsonExporter {
       JOIN pg_namespace n ON n.oid = t.typnamespace
       JOIN pg_enum e ON e.enumtypid = t.oid
       WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_type", "t.oid")}
       GROUP BY n.nspname, t.typname
       ORDER BY n.nspname, t.typname;
     `);
@@ -239,6 +356,71 @@ export class JsonExporter {
       });
     }
 
+    const { rows: domains } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        t.typname AS type_name,
+        pg_catalog.format_type(t.typbasetype, t.typtypmod) AS base_type,
+        CASE WHEN t.typcollation <> bt.typcollation THEN co.collname END AS collation,
+        t.typdefault AS default_value,
+        t.typnotnull AS not_null,
+        COALESCE(
+          json_agg(json_build_object('name', con.conname, 'definition', pg_get_constraintdef(con.oid))
+            ORDER BY con.conname) FILTER (WHERE con.oid IS NOT NULL),
+          '[]'
+        ) AS constraints
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      JOIN pg_type bt ON bt.oid = t.typbasetype
+      LEFT JOIN pg_collation co ON co.oid = t.typcollation
+      LEFT JOIN pg_constraint con ON con.contypid = t.oid AND con.contype = 'c'
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND t.typtype = 'd'
+        AND ${notExtensionMember("pg_type", "t.oid")}
+      GROUP BY n.nspname, t.typname, t.typbasetype, t.typtypmod, t.typcollation, bt.typcollation,
+        co.collname, t.typdefault, t.typnotnull
+      ORDER BY n.nspname, t.typname;
+    `);
+
+    for (const row of domains) {
+      if (!this.shouldIncludeSchema(row.schema_name)) continue;
+      result.push({
+        schema: row.schema_name,
+        name: row.type_name,
+        type: "domain",
+        baseType: row.base_type,
+        collation: row.collation,
+        default: row.default_value,
+        notNull: row.not_null,
+        constraints: row.constraints,
+      });
+    }
+
+    const { rows: ranges } = await this.client.query(`
+      SELECT
+        n.nspname AS schema_name,
+        t.typname AS type_name,
+        pg_catalog.format_type(r.rngsubtype, NULL) AS subtype,
+        CASE WHEN r.rngsubdiff::oid <> 0 THEN r.rngsubdiff::regproc::text END AS subtype_diff
+      FROM pg_range r
+      JOIN pg_type t ON t.oid = r.rngtypid
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_type", "t.oid")}
+      ORDER BY n.nspname, t.typname;
+    `);
+
+    for (const row of ranges) {
+      if (!this.shouldIncludeSchema(row.schema_name)) continue;
+      result.push({
+        schema: row.schema_name,
+        name: row.type_name,
+        type: "range",
+        subtype: row.subtype,
+        subtypeDiff: row.subtype_diff,
+      });
+    }
+
     const { rows: composites } = await this.client.query(`
       SELECT
         n.nspname AS schema_name,
@@ -253,6 +435,7 @@ export class JsonExporter {
       JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
       WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
         AND t.typtype = 'c' AND c.relkind = 'c'
+        AND ${notExtensionMember("pg_type", "t.oid")}
       GROUP BY n.nspname, t.typname
       ORDER BY n.nspname, t.typname;
     `);
@@ -279,6 +462,7 @@ export class JsonExporter {
         increment, cycle_option
       FROM information_schema.sequences
       WHERE sequence_schema NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "format('%I.%I', sequence_schema, sequence_name)::regclass")}
       ORDER BY sequence_schema, sequence_name;
     `);
 
@@ -297,99 +481,90 @@ export class JsonExporter {
 
   private async extractTables(): Promise<TableJson[]> {
     const { rows: tables } = await this.client.query(`
-      SELECT schemaname, tablename
-      FROM pg_tables
-      WHERE schemaname NOT IN ${EXCLUDED_SCHEMAS}
-      ORDER BY schemaname, tablename;
+      SELECT
+        t.schemaname, t.tablename,
+        pg_get_partkeydef(c.oid) AS partition_key,
+        pn.nspname || '.' || pc.relname AS partition_of,
+        pg_get_expr(c.relpartbound, c.oid) AS partition_bound,
+        obj_description(c.oid, 'pg_class') AS description
+      FROM pg_tables t
+      JOIN pg_namespace n ON n.nspname = t.schemaname
+      JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = t.tablename
+      LEFT JOIN pg_inherits i ON i.inhrelid = c.oid AND c.relispartition
+      LEFT JOIN pg_class pc ON pc.oid = i.inhparent
+      LEFT JOIN pg_namespace pn ON pn.oid = pc.relnamespace
+      WHERE t.schemaname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "c.oid")}
+      ORDER BY t.schemaname, t.tablename;
     `);
 
-    const result: TableJson[] = [];
-    for (const tbl of tables) {
-      if (!this.shouldIncludeTable(tbl.schemaname, tbl.tablename)) continue;
-      result.push(await this.buildTableJson(tbl.schemaname, tbl.tablename));
-    }
-    return result;
+    const included = tables.filter(
+      (tbl) =>
+        this.shouldIncludeTable(tbl.schemaname, tbl.tablename) &&
+        !(tbl.partition_of && this.options.partitions === "skip")
+    );
+    const catalog = await this.fetchTableCatalog([
+      ...new Set<string>(included.map((tbl) => tbl.schemaname)),
+    ]);
+
+    return included.map((tbl) => {
+      const table = this.buildTableJson(tbl.schemaname, tbl.tablename, tbl.description, catalog);
+      if (tbl.partition_key) table.partitionKey = tbl.partition_key;
+      if (tbl.partition_of) {
+        table.partitionOf = tbl.partition_of;
+        table.partitionBound = tbl.partition_bound;
+      }
+      return table;
+    });
   }
 
-  private async buildTableJson(schema: string, table: string): Promise<TableJson> {
-    // Columns
-    const { rows: columns } = await this.client.query(
+  /** Columns, constraints and stats of all tables in the schemas, one query each */
+  private async fetchTableCatalog(schemas: string[]): Promise<TableCatalog> {
+    const { rows: columns } = await this.client.query<ColumnTypeRow>(
       `
       SELECT
+        c.table_schema || '.' || c.table_name AS relation,
         c.column_name, c.data_type, c.udt_name,
         c.character_maximum_length, c.numeric_precision, c.numeric_scale,
         c.is_nullable, c.column_default
       FROM information_schema.columns c
-      WHERE c.table_schema = $1 AND c.table_name = $2
-      ORDER BY c.ordinal_position;
+      WHERE c.table_schema = ANY($1)
+      ORDER BY c.table_schema, c.table_name, c.ordinal_position;
     `,
-      [schema, table]
+      [schemas]
     );
 
-    // Column comments
-    const { rows: comments } = await this.client.query(
+    const { rows: comments } = await this.client.query<ColumnCommentRow>(
       `
-      SELECT a.attname AS column_name, d.description
+      SELECT n.nspname || '.' || c.relname AS relation, a.attname AS column_name, d.description
       FROM pg_class c
       JOIN pg_namespace n ON n.oid = c.relnamespace
       JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
       JOIN pg_description d ON d.objoid = c.oid AND d.objsubid = a.attnum
-      WHERE n.nspname = $1 AND c.relname = $2;
-    `,
-      [schema, table]
-    );
-
-    const commentMap = new Map(comments.map((c: ColumnCommentRow) => [c.column_name, c.description]));
-
-    const colDefs: ColumnJson[] = columns.map((col: ColumnTypeRow) => ({
-      name: col.column_name,
-      type: this.buildColumnType(col),
-      nullable: col.is_nullable === "YES",
-      default: col.column_default,
-      comment: commentMap.get(col.column_name) || null,
-    }));
-
-    // Constraints
-    const constraints: ConstraintJson[] = [];
-
-    // Primary keys
-    const { rows: pks } = await this.client.query(
-      `
-      SELECT tc.constraint_name,
-        string_agg(kcu.column_name, ', ' ORDER BY kcu.ordinal_position) AS columns
-      FROM information_schema.table_constraints tc
-      JOIN information_schema.key_column_usage kcu
-        ON kcu.constraint_name = tc.constraint_name AND kcu.constraint_schema = tc.constraint_schema
-      WHERE tc.table_schema = $1 AND tc.table_name = $2 AND tc.constraint_type = 'PRIMARY KEY'
-      GROUP BY tc.constraint_name;
+      WHERE n.nspname = ANY($1);
     `,
-      [schema, table]
+      [schemas]
     );
-    for (const pk of pks) {
-      constraints.push({ name: pk.constraint_name, type: "PRIMARY KEY", columns: pk.columns });
-    }
 
-    // Unique constraints
-    const { rows: uqs } = await this.client.query(
+    // Primary keys and unique constraints
+    const { rows: keys } = await this.client.query<KeyRow>(
       `
-      SELECT tc.constraint_name,
+      SELECT tc.table_schema || '.' || tc.table_name AS relation,
+        tc.constraint_type, tc.constraint_name,
         string_agg(kcu.column_name, ', ' ORDER BY kcu.ordinal_position) AS columns
       FROM information_schema.table_constraints tc
       JOIN information_schema.key_column_usage kcu
         ON kcu.constraint_name = tc.constraint_name AND kcu.constraint_schema = tc.constraint_schema
-      WHERE tc.table_schema = $1 AND tc.table_name = $2 AND tc.constraint_type = 'UNIQUE'
-      GROUP BY tc.constraint_name;
+      WHERE tc.table_schema = ANY($1) AND tc.constraint_type IN ('PRIMARY KEY', 'UNIQUE')
+      GROUP BY tc.table_schema, tc.table_name, tc.constraint_type, tc.constraint_name;
     `,
-      [schema, table]
+      [schemas]
     );
-    for (const uq of uqs) {
-      constraints.push({ name: uq.constraint_name, type: "UNIQUE", columns: uq.columns });
-    }
 
-    // Foreign keys
-    const { rows: fks } = await this.client.query(
+    const { rows: fks } = await this.client.query<ForeignKeyRow>(
       `
       SELECT
+        tc.table_schema || '.' || tc.table_name AS relation,
         tc.constraint_name,
         string_agg(DISTINCT kcu.column_name, ', ' ORDER BY kcu.column_name) AS columns,
         ccu.table_schema AS ref_schema, ccu.table_name AS ref_table,
@@ -402,12 +577,79 @@ export class JsonExporter {
         ON ccu.constraint_name = tc.constraint_name AND ccu.constraint_schema = tc.constraint_schema
       JOIN information_schema.referential_constraints rc
         ON rc.constraint_name = tc.constraint_name AND rc.constraint_schema = tc.constraint_schema
-      WHERE tc.table_schema = $1 AND tc.table_name = $2 AND tc.constraint_type = 'FOREIGN KEY'
-      GROUP BY tc.constraint_name, ccu.table_schema, ccu.table_name, rc.update_rule, rc.delete_rule;
+      WHERE tc.table_schema = ANY($1) AND tc.constraint_type = 'FOREIGN KEY'
+      GROUP BY tc.table_schema, tc.table_name, tc.constraint_name,
+        ccu.table_schema, ccu.table_name, rc.update_rule, rc.delete_rule;
+    `,
+      [schemas]
+    );
+
+    const { rows: checks } = await this.client.query<CheckRow>(
+      `
+      SELECT tc.table_schema || '.' || tc.table_name AS relation, cc.constraint_name, cc.check_clause
+      FROM information_schema.check_constraints cc
+      JOIN information_schema.table_constraints tc
+        ON tc.constraint_name = cc.constraint_name AND tc.constraint_schema = cc.constraint_schema
+      WHERE tc.table_schema = ANY($1)
+        AND tc.constraint_type = 'CHECK' AND cc.constraint_name NOT LIKE '%_not_null';
     `,
-      [schema, table]
+      [schemas]
     );
-    for (const fk of fks) {
+
+    const { rows: stats } = await this.client.query<StatsRow>(
+      `
+      SELECT schemaname || '.' || relname AS relation, n_live_tup AS row_estimate,
+        pg_size_pretty(pg_total_relation_size(relid)) AS total_size
+      FROM pg_stat_user_tables
+      WHERE schemaname = ANY($1);
+    `,
+      [schemas]
+    );
+
+    return {
+      columns: groupByRelation(columns),
+      comments: groupByRelation(comments),
+      keys: groupByRelation(keys),
+      fks: groupByRelation(fks),
+      checks: groupByRelation(checks),
+      stats: new Map(stats.map((row) => [row.relation, row])),
+    };
+  }
+
+  private buildTableJson(
+    schema: string,
+    table: string,
+    comment: string | null,
+    catalog: TableCatalog
+  ): TableJson {
+    const relation = `${schema}.${table}`;
+    const comments = catalog.comments.get(relation) || [];
+    const commentMap = new Map(comments.map((c) => [c.column_name, c.description]));
+
+    const colDefs: ColumnJson[] = (catalog.columns.get(relation) || []).map((col) => ({
+      name: col.column_name,
+      type: this.buildColumnType(col),
+      nullable: col.is_nullable === "YES",
+      default: col.column_default,
+      comment: commentMap.get(col.column_name) || null,
+    }));
+
+    // Constraints
+    const constraints: ConstraintJson[] = [];
+    const keys = catalog.keys.get(relation) || [];
+
+    // Primary keys
+    for (const pk of keys.filter((k) => k.constraint_type === "PRIMARY KEY")) {
+      constraints.push({ name: pk.constraint_name, type: "PRIMARY KEY", columns: pk.columns });
+    }
+
+    // Unique constraints
+    for (const uq of keys.filter((k) => k.constraint_type === "UNIQUE")) {
+      constraints.push({ name: uq.constraint_name, type: "UNIQUE", columns: uq.columns });
+    }
+
+    // Foreign keys
+    for (const fk of catalog.fks.get(relation) || []) {
       constraints.push({
         name: fk.constraint_name,
         type: "FOREIGN KEY",
@@ -420,18 +662,7 @@ export class JsonExporter {
     }
 
     // Check constraints
-    const { rows: checks } = await this.client.query(
-      `
-      SELECT cc.constraint_name, cc.check_clause
-      FROM information_schema.check_constraints cc
-      JOIN information_schema.table_constraints tc
-        ON tc.constraint_name = cc.constraint_name AND tc.constraint_schema = cc.constraint_schema
-      WHERE tc.table_schema = $1 AND tc.table_name = $2
-        AND tc.constraint_type = 'CHECK' AND cc.constraint_name NOT LIKE '%_not_null';
-    `,
-      [schema, table]
-    );
-    for (const chk of checks) {
+    for (const chk of catalog.checks.get(relation) || []) {
       constraints.push({
         name: chk.constraint_name,
         type: "CHECK",
@@ -440,37 +671,17 @@ export class JsonExporter {
       });
     }
 
-    // Table comment
-    const { rows: tblComments } = await this.client.query(
-      `
-      SELECT d.description
-      FROM pg_class c
-      JOIN pg_namespace n ON n.oid = c.relnamespace
-      JOIN pg_description d ON d.objoid = c.oid AND d.objsubid = 0
-      WHERE n.nspname = $1 AND c.relname = $2;
-    `,
-      [schema, table]
-    );
-
     // Table stats
-    const { rows: stats } = await this.client.query(
-      `
-      SELECT n_live_tup AS row_estimate,
-        pg_size_pretty(pg_total_relation_size(relid)) AS total_size
-      FROM pg_stat_user_tables
-      WHERE schemaname = $1 AND relname = $2;
-    `,
-      [schema, table]
-    );
+    const stats = catalog.stats.get(relation);
 
     return {
       schema,
       name: table,
       columns: colDefs,
       constraints,
-      comment: tblComments.length > 0 ? tblComments[0].description : null,
-      rowEstimate: stats.length > 0 ? parseInt(stats[0].row_estimate, 10) : undefined,
-      size: stats.length > 0 ? stats[0].total_size : undefined,
+      comment,
+      rowEstimate: stats ? parseInt(stats.row_estimate, 10) : undefined,
+      size: stats ? stats.total_size : undefined,
     };
   }
 
@@ -495,6 +706,7 @@ export class JsonExporter {
       SELECT schemaname AS schema_name, viewname AS view_name, definition
       FROM pg_views
       WHERE schemaname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "format('%I.%I', schemaname, viewname)::regclass")}
       ORDER BY schemaname, viewname;
     `);
     return rows
@@ -511,6 +723,7 @@ export class JsonExporter {
       SELECT schemaname AS schema_name, matviewname AS view_name, definition
       FROM pg_matviews
       WHERE schemaname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "format('%I.%I', schemaname, matviewname)::regclass")}
       ORDER BY schemaname, matviewname;
     `);
     return rows
@@ -527,17 +740,23 @@ export class JsonExporter {
       SELECT
         n.nspname AS schema_name,
         p.proname AS function_name,
+        pg_get_function_identity_arguments(p.oid) AS arguments,
+        p.prokind,
         pg_get_functiondef(p.oid) AS definition
       FROM pg_proc p
       JOIN pg_namespace n ON n.oid = p.pronamespace
       WHERE n.nspname NOT IN ${EXCLUDED_SCHEMAS}
-      ORDER BY n.nspname, p.proname;
+        AND p.prokind <> 'a'
+        AND ${notExtensionMember("pg_proc", "p.oid")}
+      ORDER BY n.nspname, p.proname, arguments;
     `);
     return rows
-      .filter((r: NamedDefRow) => this.shouldIncludeSchema(r.schema_name))
-      .map((r: NamedDefRow) => ({
+      .filter((r: FunctionRow) => this.shouldIncludeSchema(r.schema_name))
+      .map((r: FunctionRow) => ({
         schema: r.schema_name,
-        name: r.function_name!,
+        name: r.function_name,
+        arguments: r.arguments,
+        kind: r.prokind === "p" ? "procedure" : "function",
         definition: r.definition,
       }));
   }
@@ -550,6 +769,7 @@ export class JsonExporter {
         action_statement, action_timing, event_manipulation, action_orientation
       FROM information_schema.triggers
       WHERE trigger_schema NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "format('%I.%I', event_object_schema, event_object_table)::regclass")}
       ORDER BY trigger_schema, trigger_name;
     `);
 
@@ -583,6 +803,7 @@ export class JsonExporter {
         schemaname AS schema_name, indexname AS index_name, indexdef AS definition
       FROM pg_indexes
       WHERE schemaname NOT IN ${EXCLUDED_SCHEMAS}
+        AND ${notExtensionMember("pg_class", "format('%I.%I', schemaname, tablename)::regclass")}
         AND indexname NOT IN (
           SELECT constraint_name FROM information_schema.table_constraints
           WHERE constraint_type IN ('PRIMARY KEY', 'UNIQUE')
@@ -597,4 +818,20 @@ export class JsonExporter {
         definition: r.definition,
       }));
   }
+
+  private async extractPrivileges(): Promise<PrivilegeJson[]> {
+    const entries = await fetchPrivileges(this.client);
+    return entries
+      .filter((e) => e.schema === null || this.shouldIncludeSchema(e.schema))
+      .map((e) => ({
+        kind: e.kind,
+        schema: e.schema,
+        name: e.name,
+        action: e.action,
+        target: e.target,
+        grantee: e.grantee,
+        privileges: e.privileges,
+        grantable: e.grantable,
+      }));
+  }
 }
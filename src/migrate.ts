@@ -13,6 +13,7 @@ import {
 } from "./migration-generator";
 import { PreMigrationChecker, printPreCheckReport } from "./pre-check";
 import { MigrationTracker } from "./migration-tracker";
+import { loadRcConfig } from "./rc-config";
 import { DbCliOptions, connectToDatabase, closeConnection, runWithConnection } from "./cli-utils";
 
 // ─── Parse CLI args ───────────────────────────────────────────────
@@ -118,7 +119,8 @@ async function main(): Promise<void> {
     }
 
     // Generate migration plan
-    let migration = generateMigration(sqlRoot);
+    const compareOptions = { ownerMap: loadRcConfig()?.ownerMap };
+    let migration = generateMigration(sqlRoot, compareOptions);
 
     if (options.dryRun) {
       // Dry-run: show what would be done without saving
@@ -137,7 +139,7 @@ async function main(): Promise<void> {
     // Generate and save rollback if requested
     let rollbackPath: string | undefined;
     if (options.withRollback) {
-      const rollback = generateRollback(sqlRoot, migration);
+      const rollback = generateRollback(sqlRoot, migration, compareOptions);
       rollbackPath = saveRollback(sqlRoot, rollback);
     }
 
@@ -1,7 +1,9 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as readline from "readline";
-import { compareDdl } from "./compare";
+import { compareDdl, CompareOptions } from "./compare";
+import { diffPrivileges } from "./privileges";
+import { OwnerMap, OWNER_STATEMENT, remapOwners } from "./owners";
 
 // ─── Types ────────────────────────────────────────────────────
 
@@ -37,18 +39,45 @@ interface Rollback {
   migrationFile: string;
 }
 
+// OWNED BY of a sequence, which needs the owning table to exist
+const OWNED_BY_LINE = /^ALTER SEQUENCE (\S+) OWNED BY (\S+);$/m;
+
 // ─── Priority Order (execute from low to high) ───────────────
 
 const CATEGORY_PRIORITY: Record<string, number> = {
-  schemas: 1,
-  types: 2,
-  sequences: 3,
-  tables: 4,
-  functions: 5,
-  views: 6,
-  materialized_views: 7,
-  triggers: 8,
-  indexes: 9,
+  extensions: 1,
+  roles: 2,
+  role_memberships: 3,
+  tablespaces: 4,
+  database_settings: 5,
+  foreign_data_wrappers: 6,
+  foreign_servers: 7,
+  user_mappings: 8,
+  schemas: 9,
+  collations: 10,
+  types: 11,
+  sequences: 12,
+  tables: 13,
+  foreign_tables: 14,
+  functions: 15,
+  procedures: 16,
+  aggregates: 17,
+  operators: 18,
+  casts: 19,
+  text_search: 20,
+  views: 21,
+  materialized_views: 22,
+  triggers: 23,
+  indexes: 24,
+  statistics: 25,
+  policies: 26,
+  privileges: 27,
+  publications: 28,
+  subscriptions: 29,
+  rules: 30,
+  event_triggers: 31,
+  partman_configs: 32,
+  cron_jobs: 33,
 };
 
 const ACTION_PRIORITY: Record<string, number> = {
@@ -59,6 +88,42 @@ const ACTION_PRIORITY: Record<string, number> = {
 
 // ─── SQL Generator ────────────────────────────────────────────
 
+/**
+ * Move a sequence's OWNED BY statement into its own command that runs after
+ * tables are created, since the owning table may be created by the same script.
+ */
+function deferOwnedBy<T extends MigrationCommand>(command: T): T[] {
+  const match = command.category === "sequences" ? command.sql.match(OWNED_BY_LINE) : null;
+  if (!match) return [command];
+  const rest = { ...command, sql: command.sql.replace(OWNED_BY_LINE, "").trim() };
+  const ownedBy = {
+    ...command,
+    sql: match[0],
+    priority: CATEGORY_PRIORITY.tables * 100 + ACTION_PRIORITY.ALTER,
+    comment: `${command.comment} (OWNED BY)`,
+  };
+  return rest.sql !== "" ? [rest, ownedBy] : [ownedBy];
+}
+
+/**
+ * ALTER SEQUENCE statements that move a sequence from the "from" definition
+ * to the "to" definition without recreating it.
+ */
+function generateSequenceAlterSql(toDdl: string, fromDdl: string): string {
+  const definition = (ddl: string) => stripMetadata(ddl).replace(OWNED_BY_LINE, "").trim();
+  const statements: string[] = [];
+  if (definition(toDdl) !== definition(fromDdl)) {
+    statements.push(definition(toDdl).replace(/^CREATE SEQUENCE /, "ALTER SEQUENCE "));
+  }
+  const toOwnedBy = toDdl.match(OWNED_BY_LINE);
+  const fromOwnedBy = fromDdl.match(OWNED_BY_LINE);
+  if (toOwnedBy?.[0] !== fromOwnedBy?.[0]) {
+    statements.push(toOwnedBy ? toOwnedBy[0] : `ALTER SEQUENCE ${fromOwnedBy![1]} OWNED BY NONE;`);
+  }
+  statements.push(...commentDelta(toDdl, fromDdl), ...ownerDelta(toDdl, fromDdl));
+  return statements.join("\n");
+}
+
 function generateCreateSql(category: string, object: string, devFile: string): string {
   const content = fs.readFileSync(devFile, "utf-8");
   const ddl = stripHeader(content);
@@ -68,37 +133,684 @@ function generateCreateSql(category: string, object: string, devFile: string): s
     return ddl; // Already has CREATE OR REPLACE
   }
 
+  // Settings for the whole database and per role, written for this database
+  if (category === "database_settings") {
+    return generateDatabaseSettingsSql(ddl, "", databaseName(ddl));
+  }
+
+  // Servers, user mappings and subscriptions are extracted with masked secrets
+  if (hasMaskedSecret(ddl)) {
+    return `-- ⚠️ Replace the masked secrets before running\n${ddl}`;
+  }
+
   return ddl;
 }
 
-function generateDropSql(category: string, object: string): string {
+function generateDropSql(category: string, object: string, sourceFile?: string): string {
   const objectType = getCategoryObjectType(category);
   const objectName = object;
 
   // Use DROP IF EXISTS for safety
-  if (category === "functions") {
-    // For functions we need to include parameters, but we don't have them
-    // So we'll use DROP FUNCTION IF EXISTS with CASCADE
-    return `DROP FUNCTION IF EXISTS ${objectName} CASCADE;`;
+  if (category === "functions" || category === "procedures" || category === "aggregates") {
+    // The file header keeps the identity signature, e.g. public.add(a integer, b integer)
+    const signature = sourceFile ? headerObjectName(sourceFile) : null;
+    if (!signature) {
+      return `-- DROP ${objectType} ${objectName}; -- ⚠️ Manual review needed: specify argument types`;
+    }
+    return `DROP ${objectType} IF EXISTS ${signature};`;
   }
 
   if (category === "triggers") {
-    // Triggers need table name, which we don't have in the object name
-    // We'll need to parse it from the file or skip
-    return `-- DROP TRIGGER ${objectName}; -- ⚠️ Manual review needed: specify table name`;
+    // Triggers belong to a table, which is read from the CREATE TRIGGER statement
+    const match = sourceFile
+      ? stripHeader(fs.readFileSync(sourceFile, "utf-8")).match(TRIGGER_CREATE)
+      : null;
+    if (!match) {
+      return `-- DROP TRIGGER ${objectName}; -- ⚠️ Manual review needed: specify table name`;
+    }
+    return `DROP TRIGGER IF EXISTS ${match[1]} ON ${match[2]};`;
+  }
+
+  if (category === "policies") {
+    // Policies belong to a table, which is read from the CREATE POLICY statement
+    const match = sourceFile
+      ? stripHeader(fs.readFileSync(sourceFile, "utf-8")).match(/^CREATE POLICY (\S+) ON (\S+)/)
+      : null;
+    if (!match) {
+      return `-- DROP POLICY ${objectName}; -- ⚠️ Manual review needed: specify table name`;
+    }
+    return `DROP POLICY IF EXISTS ${match[1]} ON ${match[2]};`;
+  }
+
+  if (category === "user_mappings") {
+    const match = sourceFile
+      ? stripHeader(fs.readFileSync(sourceFile, "utf-8")).match(
+          /^CREATE USER MAPPING FOR (\S+) SERVER (\S+)/
+        )
+      : null;
+    if (!match) {
+      return `-- DROP USER MAPPING ${objectName}; -- ⚠️ Manual review needed`;
+    }
+    return `DROP USER MAPPING IF EXISTS FOR ${match[1]} SERVER ${match[2]};`;
+  }
+
+  if (category === "rules") {
+    // Rules belong to a table, which is read from the CREATE RULE statement
+    const match = sourceFile
+      ? stripHeader(fs.readFileSync(sourceFile, "utf-8")).match(
+          /^CREATE (?:OR REPLACE )?RULE (\S+) AS\s+ON \w+ TO (\S+)/
+        )
+      : null;
+    if (!match) {
+      return `-- DROP RULE ${objectName}; -- ⚠️ Manual review needed: specify table name`;
+    }
+    return `DROP RULE IF EXISTS ${match[1]} ON ${match[2]};`;
+  }
+
+  if (category === "operators") {
+    return generateOperatorDropSql(objectName, sourceFile);
+  }
+
+  if (category === "casts") {
+    // The header keeps the unsanitized "source AS target" pair
+    const pair = sourceFile ? headerObjectName(sourceFile) : null;
+    return `DROP CAST IF EXISTS (${pair || objectName}) CASCADE;`;
+  }
+
+  if (category === "text_search") {
+    const match = sourceFile
+      ? stripHeader(fs.readFileSync(sourceFile, "utf-8")).match(
+          /^CREATE TEXT SEARCH (PARSER|TEMPLATE|DICTIONARY|CONFIGURATION) (\S+)/
+        )
+      : null;
+    if (!match) {
+      return `-- DROP TEXT SEARCH ${objectName}; -- ⚠️ Manual review needed: specify object kind`;
+    }
+    return `DROP TEXT SEARCH ${match[1]} IF EXISTS ${match[2]} CASCADE;`;
+  }
+
+  if (category === "database_settings") {
+    // "Dropping" database settings means resetting them
+    if (!sourceFile) {
+      return `-- RESET database settings; -- ⚠️ Manual review needed`;
+    }
+    const ddl = stripHeader(fs.readFileSync(sourceFile, "utf-8"));
+    return generateDatabaseSettingsSql("", ddl, databaseName(ddl));
+  }
+
+  if (category === "cron_jobs") {
+    const job = sourceFile ? cronJob(stripHeader(fs.readFileSync(sourceFile, "utf-8"))) : null;
+    if (!job) {
+      return `-- SELECT cron.unschedule(<jobid>); -- ⚠️ Manual review needed: unnamed job ${objectName}`;
+    }
+    return `SELECT ${job.schema}.unschedule(${job.name});`;
+  }
+
+  if (category === "partman_configs") {
+    // Undoing partitioning moves data, so only stop managing the partition set
+    const match = sourceFile
+      ? stripHeader(fs.readFileSync(sourceFile, "utf-8")).match(/^UPDATE (\S+) /m)
+      : null;
+    const partConfig = match ? match[1] : "partman.part_config";
+    return `-- ⚠️ ${objectName} is no longer managed by pg_partman — review manually\n-- DELETE FROM ${partConfig} WHERE parent_table = '${objectName}';`;
+  }
+
+  if (category === "privileges") {
+    // "Dropping" privileges means revoking everything the file grants
+    if (!sourceFile) {
+      return `-- REVOKE privileges on ${objectName}; -- ⚠️ Manual review needed`;
+    }
+    return diffPrivileges("", stripHeader(fs.readFileSync(sourceFile, "utf-8"))).join("\n");
+  }
+
+  if (category === "role_memberships") {
+    if (!sourceFile) {
+      return `-- REVOKE memberships of ${objectName}; -- ⚠️ Manual review needed`;
+    }
+    const { removed } = lineDelta("", stripHeader(fs.readFileSync(sourceFile, "utf-8")));
+    return removed.map(revokeMembership).join("\n");
+  }
+
+  if (category === "types" && sourceFile) {
+    // Domains live in types/ but must be dropped with DROP DOMAIN
+    const ddl = stripHeader(fs.readFileSync(sourceFile, "utf-8"));
+    if (ddl.startsWith("CREATE DOMAIN ")) {
+      return `DROP DOMAIN IF EXISTS ${objectName} CASCADE;`;
+    }
+  }
+
+  if (category === "extensions") {
+    // No CASCADE: it would silently drop user columns and functions built on the extension
+    const match = sourceFile
+      ? stripHeader(fs.readFileSync(sourceFile, "utf-8")).match(EXTENSION_LINE)
+      : null;
+    return `DROP EXTENSION IF EXISTS ${match ? match[1] : objectName};`;
+  }
+
+  if (category === "subscriptions") {
+    // No CASCADE. Dropping the slot cannot run inside the migration's transaction
+    // block, so the subscription is detached from it first
+    return [
+      `-- ⚠️ The replication slot of ${objectName} stays on the publisher — drop it there with pg_drop_replication_slot()`,
+      `ALTER SUBSCRIPTION ${objectName} DISABLE;`,
+      `ALTER SUBSCRIPTION ${objectName} SET (slot_name = NONE);`,
+      `DROP SUBSCRIPTION IF EXISTS ${objectName};`,
+    ].join("\n");
+  }
+
+  // Roles and tablespaces do not support CASCADE
+  if (category === "roles" || category === "tablespaces") {
+    return `DROP ${objectType} IF EXISTS ${objectName};`;
   }
 
   return `DROP ${objectType} IF EXISTS ${objectName} CASCADE;`;
 }
 
+/**
+ * The operators category holds operators, operator classes and operator
+ * families, each needing its own DROP form.
+ */
+function generateOperatorDropSql(objectName: string, sourceFile?: string): string {
+  const ddl = sourceFile ? stripHeader(fs.readFileSync(sourceFile, "utf-8")) : "";
+
+  const opClass = ddl.match(/^CREATE OPERATOR CLASS (\S+) .*? USING (\w+)/);
+  if (opClass) {
+    return `DROP OPERATOR CLASS IF EXISTS ${opClass[1]} USING ${opClass[2]} CASCADE;`;
+  }
+
+  const family = ddl.match(/^CREATE OPERATOR FAMILY (\S+) USING (\w+)/);
+  if (family) {
+    return `DROP OPERATOR FAMILY IF EXISTS ${family[1]} USING ${family[2]} CASCADE;`;
+  }
+
+  // Operators are keyed "operator.<schema>.<name>(<left>, <right>)"
+  const signature = sourceFile ? headerObjectName(sourceFile) : null;
+  const operator = signature?.match(/^operator\.(.+)(\(.*\))$/);
+  if (ddl.startsWith("CREATE OPERATOR ") && operator) {
+    return `DROP OPERATOR IF EXISTS ${operator[1]} ${operator[2]} CASCADE;`;
+  }
+
+  // Loose members of a class's implicit family: the family itself is owned by the class
+  return `-- DROP ${objectName}; -- ⚠️ Manual review needed: remove operator family members`;
+}
+
+const EXTENSION_LINE = /^CREATE EXTENSION IF NOT EXISTS (\S+) SCHEMA (\S+) VERSION '([^']*)';$/m;
+
+/**
+ * Move an extension from the "from" definition to the "to" definition with
+ * ALTER EXTENSION (UPDATE TO / SET SCHEMA) instead of dropping it.
+ */
+function generateExtensionAlterSql(object: string, toDdl: string, fromDdl: string): string {
+  const to = toDdl.match(EXTENSION_LINE);
+  const from = fromDdl.match(EXTENSION_LINE);
+  if (!to || !from) {
+    return `-- ⚠️ Extension modified: ${object} — review manually\n${toDdl}`;
+  }
+
+  const statements: string[] = [];
+  if (to[2] !== from[2]) {
+    statements.push(`ALTER EXTENSION ${to[1]} SET SCHEMA ${to[2]};`);
+  }
+  if (to[3] !== from[3]) {
+    statements.push(`ALTER EXTENSION ${to[1]} UPDATE TO '${to[3]}';`);
+  }
+  return statements.join("\n");
+}
+
+interface DomainDef {
+  name: string;
+  baseType: string;
+  collation: string | null;
+  defaultValue: string | null;
+  notNull: boolean;
+  constraints: Map<string, string>;
+}
+
+/** Parse the CREATE DOMAIN layout written by the extractor (one clause per line) */
+function parseDomain(ddl: string): DomainDef | null {
+  const lines = stripMetadata(ddl)
+    .replace(/;\s*$/, "")
+    .split("\n")
+    .map((l) => l.trim());
+  const header = lines[0].match(/^CREATE DOMAIN (\S+) AS (.+)$/);
+  if (!header) return null;
+
+  const domain: DomainDef = {
+    name: header[1],
+    baseType: header[2],
+    collation: null,
+    defaultValue: null,
+    notNull: false,
+    constraints: new Map(),
+  };
+  for (const line of lines.slice(1)) {
+    const constraint = line.match(/^CONSTRAINT (\S+) (.+)$/);
+    if (constraint) domain.constraints.set(constraint[1], constraint[2]);
+    else if (line.startsWith("COLLATE ")) domain.collation = line.slice(8);
+    else if (line.startsWith("DEFAULT ")) domain.defaultValue = line.slice(8);
+    else if (line === "NOT NULL") domain.notNull = true;
+  }
+  return domain;
+}
+
+/**
+ * ALTER DOMAIN statements that move a domain from the "from" definition to
+ * the "to" definition. Returns null when the types are not both domains.
+ */
+function generateDomainAlterSql(toDdl: string, fromDdl: string): string | null {
+  const to = parseDomain(toDdl);
+  const from = parseDomain(fromDdl);
+  if (!to || !from) return null;
+
+  // Base type and collation cannot be altered in place
+  if (to.baseType !== from.baseType || to.collation !== from.collation) {
+    return `-- ⚠️ Domain ${to.name} changed base type or collation — review manually\n${toDdl}`;
+  }
+
+  const statements: string[] = [];
+  if (to.defaultValue !== from.defaultValue) {
+    statements.push(
+      to.defaultValue === null
+        ? `ALTER DOMAIN ${to.name} DROP DEFAULT;`
+        : `ALTER DOMAIN ${to.name} SET DEFAULT ${to.defaultValue};`
+    );
+  }
+  if (to.notNull !== from.notNull) {
+    statements.push(`ALTER DOMAIN ${to.name} ${to.notNull ? "SET" : "DROP"} NOT NULL;`);
+  }
+  for (const [name, def] of from.constraints) {
+    if (to.constraints.get(name) !== def) {
+      statements.push(`ALTER DOMAIN ${to.name} DROP CONSTRAINT IF EXISTS ${name};`);
+    }
+  }
+  for (const [name, def] of to.constraints) {
+    if (from.constraints.get(name) !== def) {
+      statements.push(`ALTER DOMAIN ${to.name} ADD CONSTRAINT ${name} ${def};`);
+    }
+  }
+  statements.push(...commentDelta(toDdl, fromDdl), ...ownerDelta(toDdl, fromDdl));
+  return statements.join("\n");
+}
+
+/** Parse an OPTIONS (name 'value', ...) clause into a map */
+function parseOptions(ddl: string): Map<string, string> {
+  const options = new Map<string, string>();
+  const clause = ddl.match(/OPTIONS \((.*)\)/);
+  if (clause) {
+    for (const m of clause[1].matchAll(/(\w+) '((?:[^']|'')*)'/g)) {
+      options.set(m[1], m[2]);
+    }
+  }
+  return options;
+}
+
+/**
+ * ALTER SERVER ... OPTIONS statement that moves a foreign server's options
+ * from the "from" definition to the "to" definition. Recreating the server
+ * would cascade to its user mappings and foreign tables.
+ */
+function generateServerAlterSql(object: string, toDdl: string, fromDdl: string): string {
+  const header = (ddl: string) => ddl.split("\n")[0];
+  if (header(toDdl) !== header(fromDdl)) {
+    return `-- ⚠️ Server ${object} changed type, version or wrapper — review manually\n${toDdl}`;
+  }
+
+  const to = parseOptions(toDdl);
+  const from = parseOptions(fromDdl);
+  const changes: string[] = [];
+  for (const [name, value] of to) {
+    if (!from.has(name)) changes.push(`ADD ${name} '${value}'`);
+    else if (from.get(name) !== value) changes.push(`SET ${name} '${value}'`);
+  }
+  for (const name of from.keys()) {
+    if (!to.has(name)) changes.push(`DROP ${name}`);
+  }
+  if (changes.length === 0) return "";
+
+  const sql = `ALTER SERVER ${object} OPTIONS (${changes.join(", ")});`;
+  return changes.some(hasMaskedSecret)
+    ? `-- ⚠️ Replace the masked secret before running\n${sql}`
+    : sql;
+}
+
+// Secrets are written as '********' (server options) or '<redacted>' (subscription connections)
+const MASKED_SECRET = /'\*{8}'|'<redacted>'/;
+
+function hasMaskedSecret(sql: string): boolean {
+  return MASKED_SECRET.test(sql);
+}
+
+/** PUBLICATION list, WITH options and enabled state of a subscription definition */
+function parseSubscription(ddl: string): {
+  publications: string;
+  options: Map<string, string>;
+  enabled: boolean;
+} {
+  const publications = ddl.match(/^\s*PUBLICATION (.+)$/m);
+  const withClause = ddl.match(/^\s*WITH \((.*)\);$/m);
+  const options = new Map<string, string>();
+  for (const option of withClause ? withClause[1].split(", ") : []) {
+    const [name, value] = option.split(" = ");
+    options.set(name, value);
+  }
+  return {
+    publications: publications ? publications[1] : "",
+    options,
+    enabled: / ENABLE;$/m.test(ddl),
+  };
+}
+
+/**
+ * ALTER SUBSCRIPTION statements that move a subscription from the "from"
+ * definition to the "to" one. It is never recreated: that would drop its
+ * replication slot and need the real connection string.
+ */
+function generateSubscriptionAlterSql(object: string, toDdl: string, fromDdl: string): string {
+  const to = parseSubscription(toDdl);
+  const from = parseSubscription(fromDdl);
+  const statements: string[] = [];
+
+  // Disabled first and enabled last, as changing slot_name needs a disabled subscription
+  if (from.enabled && !to.enabled) statements.push(`ALTER SUBSCRIPTION ${object} DISABLE;`);
+  // A refresh cannot run inside the migration's transaction block
+  if (to.publications !== from.publications) {
+    statements.push(
+      `ALTER SUBSCRIPTION ${object} SET PUBLICATION ${to.publications} WITH (refresh = false);`,
+      `-- ⚠️ After COMMIT, run: ALTER SUBSCRIPTION ${object} REFRESH PUBLICATION;`
+    );
+  }
+  // connect is a CREATE-only option
+  const changed = [...to.options]
+    .filter(([name, value]) => name !== "connect" && from.options.get(name) !== value)
+    .map(([name, value]) => `${name} = ${value}`);
+  if (changed.length > 0) {
+    statements.push(`ALTER SUBSCRIPTION ${object} SET (${changed.join(", ")});`);
+  }
+  if (to.enabled && !from.enabled) statements.push(`ALTER SUBSCRIPTION ${object} ENABLE;`);
+  statements.push(...commentDelta(toDdl, fromDdl), ...ownerDelta(toDdl, fromDdl));
+  return statements.join("\n");
+}
+
+/** Lines present only in one of two DDL texts (blank lines ignored) */
+function lineDelta(toDdl: string, fromDdl: string): { added: string[]; removed: string[] } {
+  const toLines = toDdl
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => l !== "");
+  const fromLines = fromDdl
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => l !== "");
+  return {
+    added: toLines.filter((l) => !fromLines.includes(l)),
+    removed: fromLines.filter((l) => !toLines.includes(l)),
+  };
+}
+
+// A whole COMMENT ON statement; descriptions may span lines and contain '' escapes
+const COMMENT_STATEMENT = /^COMMENT ON (.+?) IS ('(?:[^']|'')*'|NULL);$/gm;
+
+/** COMMENT ON statements of a DDL text, keyed by their target */
+function parseComments(ddl: string): Map<string, string> {
+  const comments = new Map<string, string>();
+  for (const match of ddl.matchAll(COMMENT_STATEMENT)) {
+    comments.set(match[1], match[0]);
+  }
+  return comments;
+}
+
+function stripComments(ddl: string): string {
+  return ddl.replace(COMMENT_STATEMENT, "").trim();
+}
+
+/** COMMENT ON statements that move descriptions from the "from" DDL to the "to" DDL */
+function commentDelta(toDdl: string, fromDdl: string): string[] {
+  const to = parseComments(toDdl);
+  const from = parseComments(fromDdl);
+  const statements: string[] = [];
+  for (const [target, statement] of to) {
+    if (from.get(target) !== statement) statements.push(statement);
+  }
+  for (const target of from.keys()) {
+    if (!to.has(target)) statements.push(`COMMENT ON ${target} IS NULL;`);
+  }
+  return statements;
+}
+
+/** ALTER ... OWNER TO statements of a DDL text, keyed by their target */
+function parseOwners(ddl: string): Map<string, string> {
+  const owners = new Map<string, string>();
+  for (const line of ddl.split("\n")) {
+    const match = line.trim().match(OWNER_STATEMENT);
+    if (match) owners.set(match[1], match[0]);
+  }
+  return owners;
+}
+
+/** DDL without its COMMENT ON and OWNER TO statements */
+function stripMetadata(ddl: string): string {
+  return stripComments(ddl)
+    .split("\n")
+    .filter((l) => !OWNER_STATEMENT.test(l.trim()))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * OWNER TO statements that fix ownership drift. An owner missing on the
+ * "to" side (e.g. ignored through the owner map) is left untouched.
+ */
+function ownerDelta(toDdl: string, fromDdl: string): string[] {
+  const to = parseOwners(toDdl);
+  const from = parseOwners(fromDdl);
+  return [...to].filter(([target, statement]) => from.get(target) !== statement).map(([, s]) => s);
+}
+
+/**
+ * COMMENT ON / OWNER TO statements for objects whose DDL differs only in
+ * descriptions or ownership, so those changes don't recreate the object.
+ * Returns null otherwise.
+ */
+function metadataOnlyDiff(toDdl: string, fromDdl: string): string | null {
+  // Ordered comparison: reordered or repeated lines are a real change
+  const definition = (ddl: string) =>
+    stripMetadata(ddl)
+      .split("\n")
+      .map((l) => l.trimEnd())
+      .filter((l) => l !== "")
+      .join("\n");
+  if (definition(toDdl) !== definition(fromDdl)) return null;
+  const statements = [...commentDelta(toDdl, fromDdl), ...ownerDelta(toDdl, fromDdl)];
+  return statements.length > 0
+    ? statements.join("\n")
+    : "-- Only ignored owners differ, nothing to change";
+}
+
+// ALTER DATABASE ... SET / ALTER ROLE ... IN DATABASE ... SET statements
+const DATABASE_SETTING_LINE = /^ALTER (DATABASE \S+|ROLE \S+ IN DATABASE \S+) SET (\S+) TO .+;$/;
+
+/** Name of the database a database_settings file was extracted from */
+function databaseName(ddl: string): string | null {
+  const match = ddl.match(/^ALTER DATABASE (\S+) /m);
+  return match ? match[1] : null;
+}
+
+/**
+ * ALTER DATABASE / ALTER ROLE ... IN DATABASE statements that move the
+ * database-level settings from the "from" definition to the "to" definition.
+ * Statements are written for `database`, the database being migrated, whose
+ * name may differ from the one the settings were extracted from.
+ */
+function generateDatabaseSettingsSql(
+  toDdl: string,
+  fromDdl: string,
+  database: string | null
+): string {
+  const rename = (ddl: string) =>
+    database === null
+      ? ddl
+      : ddl
+          .replace(/^(-- )?ALTER DATABASE \S+/gm, `$1ALTER DATABASE ${database}`)
+          .replace(/ IN DATABASE \S+/g, ` IN DATABASE ${database}`);
+  const { added, removed } = lineDelta(rename(toDdl), rename(fromDdl));
+
+  const settingKey = (line: string) => {
+    const match = line.match(DATABASE_SETTING_LINE);
+    return match ? `${match[1]} ${match[2]}` : null;
+  };
+  const addedKeys = new Set(added.map(settingKey));
+
+  const statements: string[] = [];
+  for (const line of removed) {
+    const match = line.match(DATABASE_SETTING_LINE);
+    // A setting that only changed value is overwritten by the added line
+    if (match && !addedKeys.has(settingKey(line))) {
+      statements.push(`ALTER ${match[1]} RESET ${match[2]};`);
+    }
+  }
+  for (const line of added) {
+    if (/^(-- )?ALTER DATABASE \S+ SET TABLESPACE /.test(line)) {
+      // Moving a database is not allowed in a transaction or while connected to it
+      const statement = line.replace(/^-- /, "");
+      statements.push(
+        `-- ⚠️ Default tablespace differs — run from another database, outside a transaction:\n-- ${statement}`
+      );
+    } else if (line.startsWith("-- ")) {
+      if (fromDdl !== "") {
+        statements.push(`-- ⚠️ Encoding or locale differs and cannot be altered: ${line.slice(3)}`);
+      }
+    } else {
+      statements.push(line);
+    }
+  }
+  return statements.join("\n");
+}
+
+function revokeMembership(grant: string): string {
+  return grant.replace(/^GRANT (\S+) TO (\S+?)( WITH ADMIN OPTION)?;$/, "REVOKE $1 FROM $2;");
+}
+
+/**
+ * ALTER statements that move a cluster global (role, membership, tablespace)
+ * from the "from" definition to the "to" definition without recreating it.
+ */
+function generateGlobalsAlterSql(
+  category: string,
+  object: string,
+  toDdl: string,
+  fromDdl: string
+): string {
+  const { added, removed } = lineDelta(toDdl, fromDdl);
+  const statements: string[] = [];
+
+  if (category === "roles") {
+    const setName = (l: string) => l.match(/^ALTER ROLE \S+ SET (\S+) TO /)?.[1];
+    for (const line of added) {
+      // Attribute changes: CREATE ROLE x WITH ... → ALTER ROLE x WITH ...
+      statements.push(line.replace(/^CREATE ROLE /, "ALTER ROLE "));
+    }
+    for (const line of removed) {
+      const name = setName(line);
+      if (name && !added.some((l) => setName(l) === name)) {
+        statements.push(`ALTER ROLE ${object} RESET ${name};`);
+      }
+    }
+  } else if (category === "role_memberships") {
+    statements.push(...removed.map(revokeMembership), ...added);
+  } else if (category === "tablespaces") {
+    if (added.some((l) => l.startsWith("CREATE TABLESPACE "))) {
+      statements.push(
+        `-- ⚠️ Tablespace ${object} changed owner or location — review manually:`,
+        ...added.filter((l) => l.startsWith("CREATE ")).map((l) => `-- ${l}`)
+      );
+    }
+    const options = added.find((l) => l.startsWith("ALTER TABLESPACE "));
+    const oldOptions = removed.find((l) => l.startsWith("ALTER TABLESPACE "));
+    if (options) {
+      statements.push(options);
+    } else if (oldOptions) {
+      const names = [...oldOptions.matchAll(/(\w+)=/g)].map((m) => m[1]);
+      statements.push(`ALTER TABLESPACE ${object} RESET (${names.join(", ")});`);
+    }
+  }
+
+  return statements.join("\n");
+}
+
+// Trigger name and table of a pg_get_triggerdef statement
+const TRIGGER_CREATE = /^CREATE (?:CONSTRAINT )?TRIGGER (\S+) .*? ON (\S+) /;
+
+// Non-default trigger firing state, set after the CREATE TRIGGER statement
+const TRIGGER_STATE_LINE = /^ALTER TABLE \S+ (DISABLE|ENABLE REPLICA|ENABLE ALWAYS) TRIGGER \S+;$/;
+
+/**
+ * ALTER TABLE ... TRIGGER statement that moves a trigger's firing state from
+ * the "from" definition to the "to" definition, plus comment changes.
+ * Returns null when the triggers differ in anything else.
+ */
+function triggerStateDiff(toDdl: string, fromDdl: string): string | null {
+  const split = (ddl: string) => {
+    const lines = stripMetadata(ddl)
+      .split("\n")
+      .map((l) => l.trimEnd())
+      .filter((l) => l.trim() !== "");
+    return {
+      state: lines.find((l) => TRIGGER_STATE_LINE.test(l)) ?? null,
+      rest: lines.filter((l) => !TRIGGER_STATE_LINE.test(l)).join("\n"),
+    };
+  };
+
+  const to = split(toDdl);
+  const from = split(fromDdl);
+  const create = to.rest.match(TRIGGER_CREATE);
+  if (to.rest !== from.rest || !create) return null;
+
+  const state = to.state ?? `ALTER TABLE ${create[2]} ENABLE TRIGGER ${create[1]};`;
+  return [state, ...commentDelta(toDdl, fromDdl)].join("\n");
+}
+
+/**
+ * Schema and (still quoted) name of the job scheduled by a cron_jobs file.
+ * Returns null for unnamed jobs, i.e. cron.schedule(schedule, command).
+ */
+function cronJob(ddl: string): { schema: string; name: string } | null {
+  const call = ddl.match(/^SELECT (\S+)\.(schedule|schedule_in_database)\(/);
+  if (!call) return null;
+  const literals = ddl.match(/'(?:[^']|'')*'/g) || [];
+  const [name] = literals;
+  if (!name || (call[2] === "schedule" && literals.length < 3)) return null;
+  return { schema: call[1], name };
+}
+
+/**
+ * Statements that move a pg_partman configuration from the "from" definition
+ * to the "to" definition. Settings kept in part_config are updated in place;
+ * a different create_parent() call needs the partition set to be rebuilt.
+ */
+function generatePartmanAlterSql(object: string, toDdl: string, fromDdl: string): string {
+  const createParent = (ddl: string) => ddl.slice(0, ddl.indexOf(");") + 2);
+  if (createParent(toDdl) !== createParent(fromDdl)) {
+    return `-- ⚠️ pg_partman configuration of ${object} changed — review manually\n${toDdl}`;
+  }
+  return toDdl.slice(toDdl.indexOf(");") + 2).trim();
+}
+
 function generateAlterSql(
   category: string,
   object: string,
   devFile: string,
-  prodFile: string
+  prodFile: string,
+  ownerMap?: OwnerMap
 ): string {
+  // Only descriptions or owners changed — update them without touching the object
+  const metadataSql = metadataOnlyDiff(
+    remapOwners(stripHeader(fs.readFileSync(devFile, "utf-8")), ownerMap),
+    remapOwners(stripHeader(fs.readFileSync(prodFile, "utf-8")), ownerMap)
+  );
+  if (metadataSql) return metadataSql;
+
   // For most categories, we can use CREATE OR REPLACE
-  if (category === "functions" || category === "views") {
+  if (category === "functions" || category === "procedures" || category === "views") {
     const content = fs.readFileSync(devFile, "utf-8");
     return stripHeader(content);
   }
@@ -108,16 +820,221 @@ function generateAlterSql(
     return analyzeTableDiff(object, devFile, prodFile);
   }
 
+  // For privileges, only GRANT/REVOKE the difference
+  if (category === "privileges") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return diffPrivileges(devDdl, prodDdl).join("\n");
+  }
+
+  // Domains are altered in place
+  if (category === "types") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    const domainSql = generateDomainAlterSql(devDdl, prodDdl);
+    if (domainSql !== null) return domainSql;
+  }
+
+  // Foreign servers keep their dependents, user mappings need real credentials
+  if (category === "foreign_servers") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateServerAlterSql(object, devDdl, prodDdl);
+  }
+  if (category === "user_mappings") {
+    return `-- ⚠️ User mapping ${object} modified — credentials are redacted, review manually`;
+  }
+
+  // Subscriptions are altered in place, keeping their replication slot
+  if (category === "subscriptions") {
+    const devDdl = remapOwners(stripHeader(fs.readFileSync(devFile, "utf-8")), ownerMap);
+    const prodDdl = remapOwners(stripHeader(fs.readFileSync(prodFile, "utf-8")), ownerMap);
+    return generateSubscriptionAlterSql(object, devDdl, prodDdl);
+  }
+
+  // Extensions are updated in place
+  if (category === "extensions") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateExtensionAlterSql(object, devDdl, prodDdl);
+  }
+
+  // Sequences are altered in place so column defaults using them survive
+  if (category === "sequences") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateSequenceAlterSql(devDdl, prodDdl);
+  }
+
+  // Database settings are altered in place on the PROD database
+  if (category === "database_settings") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateDatabaseSettingsSql(devDdl, prodDdl, databaseName(prodDdl));
+  }
+
+  // Scheduling a named cron job again replaces it
+  if (category === "cron_jobs") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    if (cronJob(devDdl)) return devDdl;
+  }
+
+  if (category === "partman_configs") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generatePartmanAlterSql(object, devDdl, prodDdl);
+  }
+
+  // Triggers that were only enabled or disabled keep their definition
+  if (category === "triggers") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    const stateSql = triggerStateDiff(devDdl, prodDdl);
+    if (stateSql !== null) return stateSql;
+  }
+
+  // Cluster globals are altered in place
+  if (category === "roles" || category === "role_memberships" || category === "tablespaces") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateGlobalsAlterSql(category, object, devDdl, prodDdl);
+  }
+
   // For other categories, drop and recreate
-  const drop = generateDropSql(category, object);
+  const drop = generateDropSql(category, object, prodFile);
   const create = generateCreateSql(category, object, devFile);
   return `${drop}\n\n${create}`;
 }
 
+const RLS_LINE = /^ALTER TABLE \S+ (ENABLE|FORCE) ROW LEVEL SECURITY;$/;
+
+// Named constraint inside a CREATE TABLE column list
+const CONSTRAINT_LINE = /^\s+CONSTRAINT (\S+) (.+?),?$/;
+
+// Column storage and statistics targets, set after the CREATE TABLE statement
+const COLUMN_SETTING_LINE = /^ALTER TABLE \S+ ALTER COLUMN (\S+) SET (STORAGE|STATISTICS) (\S+);$/;
+
+// USING / WITH (...) / TABLESPACE clauses closing a CREATE TABLE statement
+const STORAGE_LINE = /^\s*(USING|WITH|TABLESPACE) (.+?);?$/;
+
+/** Parse a "name=value, name=value" storage parameter list */
+function parseStorageOptions(list: string | undefined): Map<string, string> {
+  const options = new Map<string, string>();
+  for (const item of (list || "").replace(/^\((.*)\)$/, "$1").split(", ")) {
+    const eq = item.indexOf("=");
+    if (eq > 0) options.set(item.slice(0, eq), item.slice(eq + 1));
+  }
+  return options;
+}
+
+/**
+ * Build ALTER TABLE statements that move a table's settings — row level
+ * constraints, security flags, persistence, access method, storage
+ * parameters, tablespace and column storage/statistics, plus comments and owner — from the "from" definition to the
+ * "to" definition. Returns null when the tables differ in anything else.
+ */
+function tableSettingsDiff(tableName: string, toDdl: string, fromDdl: string): string | null {
+  const split = (ddl: string) => {
+    const lines = stripMetadata(ddl)
+      .split("\n")
+      .map((l) => l.trimEnd());
+    const storage: Record<string, string> = {};
+    const columns = new Map<string, string>();
+    const constraints = new Map<string, string>();
+    const rest: string[] = [];
+    for (const line of lines) {
+      const clause = line.match(STORAGE_LINE);
+      const column = line.match(COLUMN_SETTING_LINE);
+      const constraint = line.match(CONSTRAINT_LINE);
+      if (constraint) {
+        constraints.set(constraint[1], constraint[2]);
+      } else if (column) {
+        columns.set(`${column[1]} ${column[2]}`, column[3]);
+      } else if (clause) {
+        storage[clause[1]] = clause[2];
+      } else if (!RLS_LINE.test(line) && line.trim() !== "") {
+        // The closing semicolon moves with the storage clauses, separating
+        // commas with the constraints
+        rest.push(line.replace(/^CREATE UNLOGGED TABLE /, "CREATE TABLE ").replace(/[,;]$/, ""));
+      }
+    }
+    return {
+      rest: rest.join("\n"),
+      unlogged: lines.some((l) => l.startsWith("CREATE UNLOGGED TABLE ")),
+      storage,
+      columns,
+      constraints,
+      enabled: lines.some((l) => RLS_LINE.test(l) && l.includes(" ENABLE ")),
+      forced: lines.some((l) => RLS_LINE.test(l) && l.includes(" FORCE ")),
+    };
+  };
+
+  const to = split(toDdl);
+  const from = split(fromDdl);
+  if (to.rest !== from.rest) return null;
+
+  const statements: string[] = [];
+  for (const [name, def] of from.constraints) {
+    if (to.constraints.get(name) !== def) {
+      statements.push(`ALTER TABLE ${tableName} DROP CONSTRAINT IF EXISTS ${name};`);
+    }
+  }
+  for (const [name, def] of to.constraints) {
+    if (from.constraints.get(name) !== def) {
+      statements.push(`ALTER TABLE ${tableName} ADD CONSTRAINT ${name} ${def};`);
+    }
+  }
+  if (to.unlogged !== from.unlogged) {
+    statements.push(`ALTER TABLE ${tableName} SET ${to.unlogged ? "UNLOGGED" : "LOGGED"};`);
+  }
+  if (to.storage.USING !== from.storage.USING) {
+    statements.push(`ALTER TABLE ${tableName} SET ACCESS METHOD ${to.storage.USING || "heap"};`);
+  }
+  const toOptions = parseStorageOptions(to.storage.WITH);
+  const fromOptions = parseStorageOptions(from.storage.WITH);
+  const changed = [...toOptions].filter(([name, value]) => fromOptions.get(name) !== value);
+  const reset = [...fromOptions.keys()].filter((name) => !toOptions.has(name));
+  if (changed.length > 0) {
+    const items = changed.map(([name, value]) => `${name}=${value}`);
+    statements.push(`ALTER TABLE ${tableName} SET (${items.join(", ")});`);
+  }
+  if (reset.length > 0) {
+    statements.push(`ALTER TABLE ${tableName} RESET (${reset.join(", ")});`);
+  }
+  if (to.storage.TABLESPACE !== from.storage.TABLESPACE) {
+    const tablespace = to.storage.TABLESPACE || "pg_default";
+    statements.push(`ALTER TABLE ${tableName} SET TABLESPACE ${tablespace};`);
+  }
+  for (const key of new Set([...from.columns.keys(), ...to.columns.keys()])) {
+    if (to.columns.get(key) === from.columns.get(key)) continue;
+    const [column, setting] = key.split(" ");
+    const value = to.columns.get(key) ?? (setting === "STORAGE" ? "DEFAULT" : "-1");
+    statements.push(`ALTER TABLE ${tableName} ALTER COLUMN ${column} SET ${setting} ${value};`);
+  }
+  if (to.enabled !== from.enabled) {
+    statements.push(
+      `ALTER TABLE ${tableName} ${to.enabled ? "ENABLE" : "DISABLE"} ROW LEVEL SECURITY;`
+    );
+  }
+  if (to.forced !== from.forced) {
+    statements.push(
+      `ALTER TABLE ${tableName} ${to.forced ? "FORCE" : "NO FORCE"} ROW LEVEL SECURITY;`
+    );
+  }
+  statements.push(...commentDelta(toDdl, fromDdl), ...ownerDelta(toDdl, fromDdl));
+  return statements.length > 0 ? statements.join("\n") : null;
+}
+
 function analyzeTableDiff(tableName: string, devFile: string, prodFile: string): string {
+  const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+  const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+
+  // Only table settings changed — alter them in place
+  const settingsSql = tableSettingsDiff(tableName, devDdl, prodDdl);
+  if (settingsSql) return settingsSql;
+
   // Simple approach: just recreate the table
   // TODO: More sophisticated column-level ALTER analysis
-  const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
 
   return `-- ⚠️ Table modified: ${tableName}
 -- Review the changes manually and adjust as needed
@@ -137,19 +1054,46 @@ ${devDdl}
 
 function getCategoryObjectType(category: string): string {
   const mapping: Record<string, string> = {
+    extensions: "EXTENSION",
+    database_settings: "DATABASE",
     schemas: "SCHEMA",
     types: "TYPE",
     sequences: "SEQUENCE",
     tables: "TABLE",
+    foreign_data_wrappers: "FOREIGN DATA WRAPPER",
+    foreign_servers: "SERVER",
+    foreign_tables: "FOREIGN TABLE",
     functions: "FUNCTION",
+    procedures: "PROCEDURE",
+    aggregates: "AGGREGATE",
+    operators: "OPERATOR",
+    casts: "CAST",
+    collations: "COLLATION",
+    text_search: "TEXT SEARCH",
     views: "VIEW",
     materialized_views: "MATERIALIZED VIEW",
     triggers: "TRIGGER",
+    event_triggers: "EVENT TRIGGER",
+    rules: "RULE",
     indexes: "INDEX",
+    statistics: "STATISTICS",
+    policies: "POLICY",
+    publications: "PUBLICATION",
+    subscriptions: "SUBSCRIPTION",
+    partman_configs: "PARTMAN CONFIG",
+    cron_jobs: "CRON JOB",
+    roles: "ROLE",
+    tablespaces: "TABLESPACE",
   };
   return mapping[category] || category.toUpperCase();
 }
 
+/** Unsanitized object name from the "-- Object:" line of the file header */
+function headerObjectName(file: string): string | null {
+  const match = fs.readFileSync(file, "utf-8").match(/^-- Object:\s+(.+)$/m);
+  return match ? match[1].trim() : null;
+}
+
 function stripHeader(content: string): string {
   const lines = content.split("\n");
   const start = lines.findIndex((l) => !l.startsWith("-- ") && l.trim() !== "");
@@ -158,8 +1102,8 @@ function stripHeader(content: string): string {
 
 // ─── Migration Generator ──────────────────────────────────────
 
-export function generateMigration(sqlRoot: string): Migration {
-  const summary = compareDdl(sqlRoot);
+export function generateMigration(sqlRoot: string, options: CompareOptions = {}): Migration {
+  const summary = compareDdl(sqlRoot, options);
   const commands: MigrationCommand[] = [];
 
   let creates = 0;
@@ -172,20 +1116,25 @@ export function generateMigration(sqlRoot: string): Migration {
 
     if (item.status === "only_dev") {
       // CREATE: object exists in dev but not in prod
-      const sql = generateCreateSql(item.category, item.object, item.devFile!);
+      const sql = remapOwners(
+        generateCreateSql(item.category, item.object, item.devFile!),
+        options.ownerMap
+      );
       const priority = categoryPriority * 100 + ACTION_PRIORITY.CREATE;
 
-      commands.push({
-        category: item.category,
-        object: item.object,
-        sql,
-        priority,
-        comment: `Create ${item.category.slice(0, -1)}: ${item.object}`,
-      });
+      commands.push(
+        ...deferOwnedBy({
+          category: item.category,
+          object: item.object,
+          sql,
+          priority,
+          comment: `Create ${item.category.slice(0, -1)}: ${item.object}`,
+        })
+      );
       creates++;
     } else if (item.status === "only_prod") {
       // DROP: object exists in prod but not in dev
-      const sql = generateDropSql(item.category, item.object);
+      const sql = generateDropSql(item.category, item.object, item.prodFile);
       // Drop in reverse order (higher priority number)
       const priority = (100 - categoryPriority) * 100 + ACTION_PRIORITY.DROP;
 
@@ -199,16 +1148,27 @@ export function generateMigration(sqlRoot: string): Migration {
       drops++;
     } else if (item.status === "modified") {
       // ALTER: object exists in both but differs
-      const sql = generateAlterSql(item.category, item.object, item.devFile!, item.prodFile!);
+      const sql = remapOwners(
+        generateAlterSql(
+          item.category,
+          item.object,
+          item.devFile!,
+          item.prodFile!,
+          options.ownerMap
+        ),
+        options.ownerMap
+      );
       const priority = categoryPriority * 100 + ACTION_PRIORITY.ALTER;
 
-      commands.push({
-        category: item.category,
-        object: item.object,
-        sql,
-        priority,
-        comment: `Modify ${item.category.slice(0, -1)}: ${item.object}`,
-      });
+      commands.push(
+        ...deferOwnedBy({
+          category: item.category,
+          object: item.object,
+          sql,
+          priority,
+          comment: `Modify ${item.category.slice(0, -1)}: ${item.object}`,
+        })
+      );
       alters++;
     }
   }
@@ -225,8 +1185,12 @@ export function generateMigration(sqlRoot: string): Migration {
 
 // ─── Rollback Generator ──────────────────────────────────
 
-export function generateRollback(sqlRoot: string, migration: Migration): Rollback {
-  const summary = compareDdl(sqlRoot);
+export function generateRollback(
+  sqlRoot: string,
+  migration: Migration,
+  options: CompareOptions = {}
+): Rollback {
+  const summary = compareDdl(sqlRoot, options);
   const commands: RollbackCommand[] = [];
 
   for (const item of summary.items) {
@@ -234,7 +1198,7 @@ export function generateRollback(sqlRoot: string, migration: Migration): Rollbac
 
     if (item.status === "only_dev") {
       // Migration CREATEs this → Rollback DROPs it
-      const sql = generateDropSql(item.category, item.object);
+      const sql = generateDropSql(item.category, item.object, item.devFile);
       // Drop in reverse order of creation
       const priority = (100 - categoryPriority) * 100 + 10;
 
@@ -248,30 +1212,46 @@ export function generateRollback(sqlRoot: string, migration: Migration): Rollbac
     } else if (item.status === "only_prod") {
       // Migration DROPs this → Rollback restores it from prod
       if (item.prodFile) {
-        const sql = generateCreateSql(item.category, item.object, item.prodFile);
+        const sql = remapOwners(
+          generateCreateSql(item.category, item.object, item.prodFile),
+          options.ownerMap
+        );
         const priority = categoryPriority * 100 + 20;
 
-        commands.push({
-          category: item.category,
-          object: item.object,
-          sql,
-          priority,
-          comment: `Rollback: Restore ${item.category.slice(0, -1)} ${item.object} (was dropped by migration)`,
-        });
+        commands.push(
+          ...deferOwnedBy({
+            category: item.category,
+            object: item.object,
+            sql,
+            priority,
+            comment: `Rollback: Restore ${item.category.slice(0, -1)} ${item.object} (was dropped by migration)`,
+          })
+        );
       }
     } else if (item.status === "modified") {
       // Migration ALTERs this → Rollback restores old version from prod
       if (item.prodFile) {
-        const sql = generateRollbackAlterSql(item.category, item.object, item.prodFile);
+        const sql = remapOwners(
+          generateRollbackAlterSql(
+            item.category,
+            item.object,
+            item.devFile!,
+            item.prodFile,
+            options.ownerMap
+          ),
+          options.ownerMap
+        );
         const priority = categoryPriority * 100 + 30;
 
-        commands.push({
-          category: item.category,
-          object: item.object,
-          sql,
-          priority,
-          comment: `Rollback: Restore ${item.category.slice(0, -1)} ${item.object} to PROD version`,
-        });
+        commands.push(
+          ...deferOwnedBy({
+            category: item.category,
+            object: item.object,
+            sql,
+            priority,
+            comment: `Rollback: Restore ${item.category.slice(0, -1)} ${item.object} to PROD version`,
+          })
+        );
       }
     }
   }
@@ -286,9 +1266,22 @@ export function generateRollback(sqlRoot: string, migration: Migration): Rollbac
   };
 }
 
-function generateRollbackAlterSql(category: string, object: string, prodFile: string): string {
+function generateRollbackAlterSql(
+  category: string,
+  object: string,
+  devFile: string,
+  prodFile: string,
+  ownerMap?: OwnerMap
+): string {
+  // Only descriptions or owners changed — restore the PROD ones
+  const metadataSql = metadataOnlyDiff(
+    remapOwners(stripHeader(fs.readFileSync(prodFile, "utf-8")), ownerMap),
+    remapOwners(stripHeader(fs.readFileSync(devFile, "utf-8")), ownerMap)
+  );
+  if (metadataSql) return metadataSql;
+
   // For functions and views, simply restore the prod version
-  if (category === "functions" || category === "views") {
+  if (category === "functions" || category === "procedures" || category === "views") {
     const content = fs.readFileSync(prodFile, "utf-8");
     return stripHeader(content);
   }
@@ -296,6 +1289,10 @@ function generateRollbackAlterSql(category: string, object: string, prodFile: st
   // For tables, we can't easily rollback structure changes
   if (category === "tables") {
     const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const settingsSql = tableSettingsDiff(object, prodDdl, devDdl);
+    if (settingsSql) return settingsSql;
+
     return `-- ⚠️ Table rollback: ${object}
 -- Review and adjust the following manually to restore PROD state
 -- You may need to: ALTER TABLE, DROP/ADD columns, etc.
@@ -304,8 +1301,88 @@ function generateRollbackAlterSql(category: string, object: string, prodFile: st
 ${prodDdl}`;
   }
 
+  // For privileges, GRANT/REVOKE back to the PROD state
+  if (category === "privileges") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return diffPrivileges(prodDdl, devDdl).join("\n");
+  }
+
+  // Domains are altered back in place
+  if (category === "types") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    const domainSql = generateDomainAlterSql(prodDdl, devDdl);
+    if (domainSql !== null) return domainSql;
+  }
+
+  // Foreign servers go back to the PROD options
+  if (category === "foreign_servers") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateServerAlterSql(object, prodDdl, devDdl);
+  }
+  if (category === "user_mappings") {
+    return `-- ⚠️ User mapping ${object} modified — credentials are redacted, review manually`;
+  }
+
+  // Subscriptions go back to the PROD publications and options
+  if (category === "subscriptions") {
+    const devDdl = remapOwners(stripHeader(fs.readFileSync(devFile, "utf-8")), ownerMap);
+    const prodDdl = remapOwners(stripHeader(fs.readFileSync(prodFile, "utf-8")), ownerMap);
+    return generateSubscriptionAlterSql(object, prodDdl, devDdl);
+  }
+
+  // Extensions go back to the PROD version (needs a downgrade script in the extension)
+  if (category === "extensions") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateExtensionAlterSql(object, prodDdl, devDdl);
+  }
+
+  // Sequences go back to the PROD parameters
+  if (category === "sequences") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateSequenceAlterSql(prodDdl, devDdl);
+  }
+
+  // Database settings go back to the PROD ones
+  if (category === "database_settings") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateDatabaseSettingsSql(prodDdl, devDdl, databaseName(prodDdl));
+  }
+
+  // Named cron jobs are scheduled again with the PROD definition
+  if (category === "cron_jobs") {
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    if (cronJob(prodDdl)) return prodDdl;
+  }
+
+  if (category === "partman_configs") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generatePartmanAlterSql(object, prodDdl, devDdl);
+  }
+
+  // Triggers go back to the PROD firing state
+  if (category === "triggers") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    const stateSql = triggerStateDiff(prodDdl, devDdl);
+    if (stateSql !== null) return stateSql;
+  }
+
+  // Cluster globals are altered back in place
+  if (category === "roles" || category === "role_memberships" || category === "tablespaces") {
+    const devDdl = stripHeader(fs.readFileSync(devFile, "utf-8"));
+    const prodDdl = stripHeader(fs.readFileSync(prodFile, "utf-8"));
+    return generateGlobalsAlterSql(category, object, prodDdl, devDdl);
+  }
+
   // For other categories, drop and recreate from prod
-  const drop = generateDropSql(category, object);
+  const drop = generateDropSql(category, object, devFile);
   const create = generateCreateSql(category, object, prodFile);
   return `${drop}\n\n${create}`;
 }
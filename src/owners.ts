@@ -0,0 +1,27 @@
+/**
+ * Owner remapping between environments, e.g. `{ "alice": "app_owner" }`.
+ * An owner mapped to null is ignored: its OWNER TO statements are left out.
+ */
+export type OwnerMap = Record<string, string | null>;
+
+/** A single ALTER ... OWNER TO statement as written by the extractor */
+export const OWNER_STATEMENT = /^ALTER (.+) OWNER TO (\S+);$/;
+
+/** Apply the owner map to one owner; null means the owner is ignored */
+export function mapOwner(owner: string, ownerMap: OwnerMap = {}): string | null {
+  return Object.prototype.hasOwnProperty.call(ownerMap, owner) ? ownerMap[owner] : owner;
+}
+
+/** Apply the owner map to the OWNER TO statements of already extracted DDL */
+export function remapOwners(ddl: string, ownerMap: OwnerMap = {}): string {
+  if (Object.keys(ownerMap).length === 0) return ddl;
+  return ddl
+    .split("\n")
+    .flatMap((line) => {
+      const match = line.match(OWNER_STATEMENT);
+      if (!match) return [line];
+      const owner = mapOwner(match[2], ownerMap);
+      return owner === null ? [] : [`ALTER ${match[1]} OWNER TO ${owner};`];
+    })
+    .join("\n");
+}
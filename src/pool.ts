@@ -1,4 +1,4 @@
-import { Pool, PoolConfig, PoolClient } from "pg";
+import { ClientBase, Pool, PoolConfig, PoolClient, QueryResult } from "pg";
 
 export interface PoolOptions {
   min?: number;
@@ -52,7 +52,8 @@ export async function withPoolClient<T>(
 
 /**
  * Execute multiple tasks concurrently using pooled connections.
- * Each task gets its own client from the pool.
+ * Each task gets its own client from the pool. Results are returned
+ * in task order, whichever task finishes first.
  */
 export async function parallelQuery<T>(
   pool: Pool,
@@ -60,31 +61,138 @@ export async function parallelQuery<T>(
   concurrency?: number
 ): Promise<T[]> {
   const limit = concurrency || pool.totalCount || 5;
-  const results: T[] = [];
-  const executing: Promise<void>[] = [];
-
-  for (const task of tasks) {
-    const p = withPoolClient(pool, task).then((result) => {
-      results.push(result);
-    });
-
-    executing.push(p);
-
-    if (executing.length >= limit) {
-      await Promise.race(executing);
-      // Remove completed promises
-      for (let i = executing.length - 1; i >= 0; i--) {
-        const status = await Promise.race([
-          executing[i].then(() => "done"),
-          Promise.resolve("pending"),
-        ]);
-        if (status === "done") {
-          executing.splice(i, 1);
-        }
-      }
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  // Each runner takes the next task until none are left
+  const run = async (): Promise<void> => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await withPoolClient(pool, tasks[index]);
     }
-  }
+  };
 
-  await Promise.all(executing);
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, run));
   return results;
 }
+
+// ─── Snapshot transactions ────────────────────────────────────────
+
+/** Database state an extraction reads, as recorded in _manifest.json */
+export interface SnapshotInfo {
+  /** Oldest transaction still running when the snapshot was taken (snapshot xmin) */
+  txid: string;
+  /** The full snapshot, xmin:xmax:running-xids */
+  snapshot: string;
+  /** WAL position at the snapshot (replay position on a standby) */
+  lsn: string;
+}
+
+// Connections inside a snapshot transaction
+const snapshotClients = new WeakSet<ClientBase>();
+
+/**
+ * Start a REPEATABLE READ READ ONLY transaction, so every following query
+ * on the connection reads the same database state, and describe that state.
+ */
+export async function beginSnapshot(client: ClientBase): Promise<SnapshotInfo> {
+  await client.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY;");
+  snapshotClients.add(client);
+  // The first query of the transaction takes the snapshot
+  const { rows } = await client.query(`
+    SELECT
+      txid_snapshot_xmin(txid_current_snapshot())::text AS txid,
+      txid_current_snapshot()::text AS snapshot,
+      (CASE WHEN pg_is_in_recovery() THEN pg_last_wal_replay_lsn()
+        ELSE pg_current_wal_lsn() END)::text AS lsn;
+  `);
+  return rows[0];
+}
+
+/** End the snapshot transaction started by beginSnapshot */
+export async function endSnapshot(client: ClientBase): Promise<void> {
+  snapshotClients.delete(client);
+  await client.query("COMMIT;");
+}
+
+/**
+ * Run a query whose failure the caller handles. Inside a snapshot transaction
+ * it runs under a savepoint, so the failure does not abort the transaction.
+ */
+export async function tryQuery(client: ClientBase, text: string): Promise<QueryResult> {
+  if (!snapshotClients.has(client)) return client.query(text);
+  await client.query("SAVEPOINT try_query;");
+  try {
+    const result = await client.query(text);
+    await client.query("RELEASE SAVEPOINT try_query;");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK TO SAVEPOINT try_query;");
+    throw err;
+  }
+}
+
+// ─── Snapshot workers ─────────────────────────────────────────────
+
+/**
+ * Pooled connections that extraction work is spread across (--jobs).
+ * Every connection reads the snapshot exported by the leader connection,
+ * so all workers see exactly the same database state.
+ */
+export interface WorkerPool {
+  pool: Pool;
+  /** Snapshot id from pg_export_snapshot() */
+  snapshot: string;
+  jobs: number;
+}
+
+/**
+ * Open `jobs` pooled connections sharing the leader's snapshot. The leader
+ * must be inside beginSnapshot's transaction and keep it open until
+ * closeWorkerPool, because the exported snapshot ends with it.
+ */
+export async function openWorkerPool(
+  leader: ClientBase,
+  config: PoolConfig,
+  jobs: number
+): Promise<WorkerPool> {
+  const { rows } = await leader.query("SELECT pg_export_snapshot() AS snapshot;");
+  const pool = createPool(config, { min: 0, max: jobs });
+  return { pool, snapshot: rows[0].snapshot, jobs };
+}
+
+/** Close the worker connections */
+export async function closeWorkerPool(workers: WorkerPool): Promise<void> {
+  await workers.pool.end();
+}
+
+/** Make a pooled connection read the workers' snapshot (once per connection) */
+async function joinSnapshot(client: ClientBase, snapshot: string): Promise<void> {
+  if (snapshotClients.has(client)) return;
+  await client.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY;");
+  await client.query(`SET TRANSACTION SNAPSHOT '${snapshot}';`);
+  snapshotClients.add(client);
+}
+
+/** Run a function on a worker connection that reads the shared snapshot */
+export async function withWorker<T>(
+  workers: WorkerPool,
+  fn: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  return withPoolClient(workers.pool, async (client) => {
+    await joinSnapshot(client, workers.snapshot);
+    return fn(client);
+  });
+}
+
+/** Run tasks across the worker connections; results are returned in task order */
+export async function parallelWorkers<T>(
+  workers: WorkerPool,
+  tasks: Array<(client: PoolClient) => Promise<T>>
+): Promise<T[]> {
+  const inSnapshot = tasks.map((task) => async (client: PoolClient) => {
+    await joinSnapshot(client, workers.snapshot);
+    return task(client);
+  });
+  return parallelQuery(workers.pool, inSnapshot, workers.jobs);
+}
@@ -0,0 +1,333 @@
+import { ClientBase } from "pg";
+
+const EXCLUDED_SCHEMAS = `('pg_catalog', 'information_schema', 'pg_toast')`;
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type PrivilegeObjectKind =
+  | "table"
+  | "view"
+  | "materialized_view"
+  | "foreign_table"
+  | "sequence"
+  | "function"
+  | "schema"
+  | "default";
+
+/**
+ * One GRANT or REVOKE statement. Privileges are stored relative to the
+ * PostgreSQL built-in defaults (acldefault), so a REVOKE means a default
+ * privilege was taken away (e.g. EXECUTE on a function from PUBLIC).
+ */
+export interface PrivilegeEntry {
+  kind: PrivilegeObjectKind;
+  /** Object key used as file name, e.g. table.public.users */
+  key: string;
+  schema: string | null;
+  name: string;
+  action: "GRANT" | "REVOKE";
+  /** Target clause, e.g. TABLE public.users or TABLES (for default privileges) */
+  target: string;
+  grantee: string;
+  privileges: string[];
+  grantable: boolean;
+  /** ALTER DEFAULT PRIVILEGES prefix, empty for regular objects */
+  prefix: string;
+}
+
+interface AclRow {
+  kind: PrivilegeObjectKind;
+  schema_name: string | null;
+  object_name: string;
+  target: string;
+  prefix: string;
+  action: "GRANT" | "REVOKE";
+  grantee: string;
+  privilege_type: string;
+  is_grantable: boolean;
+}
+
+// ─── Queries ──────────────────────────────────────────────────
+
+const OBJECT_ACL_QUERY = `
+  WITH objects AS (
+    SELECT
+      CASE c.relkind
+        WHEN 'S' THEN 'sequence'
+        WHEN 'v' THEN 'view'
+        WHEN 'm' THEN 'materialized_view'
+        WHEN 'f' THEN 'foreign_table'
+        ELSE 'table'
+      END AS kind,
+      n.nspname AS schema_name,
+      c.relname AS object_name,
+      CASE c.relkind WHEN 'S' THEN 'SEQUENCE ' ELSE 'TABLE ' END
+        || n.nspname || '.' || c.relname AS target,
+      c.relacl AS acl,
+      acldefault(CASE c.relkind WHEN 'S' THEN 's' ELSE 'r' END::"char", c.relowner) AS default_acl
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'v', 'm', 'S', 'f')
+      AND c.relacl IS NOT NULL
+
+    UNION ALL
+
+    SELECT
+      'function',
+      n.nspname,
+      p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')',
+      CASE p.prokind WHEN 'p' THEN 'PROCEDURE ' ELSE 'FUNCTION ' END
+        || n.nspname || '.' || p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')',
+      p.proacl,
+      acldefault('f', p.proowner)
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE p.proacl IS NOT NULL
+
+    UNION ALL
+
+    SELECT 'schema', n.nspname, n.nspname, 'SCHEMA ' || n.nspname, n.nspacl, acldefault('n', n.nspowner)
+    FROM pg_namespace n
+    WHERE n.nspacl IS NOT NULL
+      AND n.nspname NOT LIKE 'pg_%'
+  )
+  SELECT
+    o.kind,
+    o.schema_name,
+    o.object_name,
+    o.target,
+    '' AS prefix,
+    a.action,
+    CASE WHEN a.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(a.grantee) END AS grantee,
+    a.privilege_type,
+    a.is_grantable
+  FROM objects o
+  CROSS JOIN LATERAL (
+    SELECT 'GRANT' AS action, g.grantee, g.privilege_type, g.is_grantable
+    FROM aclexplode(o.acl) g
+    WHERE (g.grantee, g.privilege_type, g.is_grantable) NOT IN (
+      SELECT d.grantee, d.privilege_type, d.is_grantable FROM aclexplode(o.default_acl) d
+    )
+    UNION ALL
+    SELECT 'REVOKE', d.grantee, d.privilege_type, false
+    FROM aclexplode(o.default_acl) d
+    WHERE (d.grantee, d.privilege_type) NOT IN (
+      SELECT g.grantee, g.privilege_type FROM aclexplode(o.acl) g
+    )
+  ) a
+  WHERE o.schema_name NOT IN ${EXCLUDED_SCHEMAS}
+  ORDER BY o.kind, o.schema_name, o.object_name, a.action DESC, grantee, a.privilege_type;
+`;
+
+// Schema-level default ACLs only add privileges; the global (no schema) entry
+// replaces the built-in defaults, so it is compared against acldefault.
+// Schema-level entries get a NULL default: aclexplode() rejects an empty array.
+const DEFAULT_ACL_QUERY = `
+  WITH defaults AS (
+    SELECT
+      pg_get_userbyid(d.defaclrole) AS role_name,
+      n.nspname AS schema_name,
+      CASE d.defaclobjtype
+        WHEN 'r' THEN 'TABLES'
+        WHEN 'S' THEN 'SEQUENCES'
+        WHEN 'f' THEN 'FUNCTIONS'
+        WHEN 'T' THEN 'TYPES'
+        WHEN 'n' THEN 'SCHEMAS'
+      END AS target,
+      d.defaclacl AS acl,
+      CASE
+        WHEN d.defaclnamespace = 0 THEN
+          acldefault(CASE d.defaclobjtype WHEN 'S' THEN 's' ELSE d.defaclobjtype END::"char", d.defaclrole)
+      END AS default_acl
+    FROM pg_default_acl d
+    LEFT JOIN pg_namespace n ON n.oid = d.defaclnamespace
+  )
+  SELECT
+    'default' AS kind,
+    o.schema_name,
+    o.role_name AS object_name,
+    o.target,
+    'ALTER DEFAULT PRIVILEGES FOR ROLE ' || o.role_name
+      || COALESCE(' IN SCHEMA ' || o.schema_name, '') || ' ' AS prefix,
+    a.action,
+    CASE WHEN a.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(a.grantee) END AS grantee,
+    a.privilege_type,
+    a.is_grantable
+  FROM defaults o
+  CROSS JOIN LATERAL (
+    SELECT 'GRANT' AS action, g.grantee, g.privilege_type, g.is_grantable
+    FROM aclexplode(o.acl) g
+    WHERE (g.grantee, g.privilege_type, g.is_grantable) NOT IN (
+      SELECT d.grantee, d.privilege_type, d.is_grantable FROM aclexplode(o.default_acl) d
+    )
+    UNION ALL
+    SELECT 'REVOKE', d.grantee, d.privilege_type, false
+    FROM aclexplode(o.default_acl) d
+    WHERE (d.grantee, d.privilege_type) NOT IN (
+      SELECT g.grantee, g.privilege_type FROM aclexplode(o.acl) g
+    )
+  ) a
+  WHERE o.schema_name IS NULL OR o.schema_name NOT IN ${EXCLUDED_SCHEMAS}
+  ORDER BY o.role_name, o.schema_name NULLS FIRST, o.target, a.action DESC, grantee, a.privilege_type;
+`;
+
+/**
+ * Read object ACLs and default privileges from the catalog and group them
+ * into one entry per (object, action, grantee, grant option).
+ */
+export async function fetchPrivileges(client: ClientBase): Promise<PrivilegeEntry[]> {
+  const { rows: objectRows } = await client.query(OBJECT_ACL_QUERY);
+  const { rows: defaultRows } = await client.query(DEFAULT_ACL_QUERY);
+
+  const entries: PrivilegeEntry[] = [];
+  const byGroup = new Map<string, PrivilegeEntry>();
+
+  for (const row of [...objectRows, ...defaultRows] as AclRow[]) {
+    const key =
+      row.kind === "default"
+        ? `default.${row.object_name}${row.schema_name ? `.${row.schema_name}` : ""}`
+        : row.kind === "schema"
+          ? `schema.${row.object_name}`
+          : `${row.kind}.${row.schema_name}.${row.object_name}`;
+    const group = [key, row.prefix, row.target, row.action, row.grantee, row.is_grantable].join(
+      "|"
+    );
+
+    let entry = byGroup.get(group);
+    if (!entry) {
+      entry = {
+        kind: row.kind,
+        key,
+        schema: row.schema_name,
+        name: row.object_name,
+        action: row.action,
+        target: row.target,
+        grantee: row.grantee,
+        privileges: [],
+        grantable: row.is_grantable,
+        prefix: row.prefix,
+      };
+      byGroup.set(group, entry);
+      entries.push(entry);
+    }
+    entry.privileges.push(row.privilege_type);
+  }
+
+  return entries;
+}
+
+// ─── Formatting & Parsing ─────────────────────────────────────
+
+type PrivilegeStatement = Pick<
+  PrivilegeEntry,
+  "action" | "target" | "grantee" | "privileges" | "grantable" | "prefix"
+>;
+
+/** Render a privilege entry as a GRANT/REVOKE statement */
+export function formatPrivilege(entry: PrivilegeStatement): string {
+  const privs = entry.privileges.join(", ");
+  if (entry.action === "REVOKE") {
+    return `${entry.prefix}REVOKE ${privs} ON ${entry.target} FROM ${entry.grantee};`;
+  }
+  const option = entry.grantable ? " WITH GRANT OPTION" : "";
+  return `${entry.prefix}GRANT ${privs} ON ${entry.target} TO ${entry.grantee}${option};`;
+}
+
+const STATEMENT_RE =
+  /^(ALTER DEFAULT PRIVILEGES .+? )?(GRANT|REVOKE) (.+?) ON (.+) (?:TO|FROM) (\S+)( WITH GRANT OPTION)?;$/;
+
+interface PrivilegeAtom {
+  prefix: string;
+  action: "GRANT" | "REVOKE";
+  privilege: string;
+  target: string;
+  grantee: string;
+  grantable: boolean;
+}
+
+/** Split GRANT/REVOKE statements into one atom per privilege */
+function parseAtoms(ddl: string): Map<string, PrivilegeAtom> {
+  const atoms = new Map<string, PrivilegeAtom>();
+  for (const line of ddl.split("\n")) {
+    const match = line.trim().match(STATEMENT_RE);
+    if (!match) continue;
+    for (const privilege of match[3].split(",").map((p) => p.trim())) {
+      const atom: PrivilegeAtom = {
+        prefix: match[1] || "",
+        action: match[2] as "GRANT" | "REVOKE",
+        privilege,
+        target: match[4],
+        grantee: match[5],
+        grantable: !!match[6],
+      };
+      atoms.set([atom.prefix, atom.target, atom.grantee, privilege].join("|"), atom);
+    }
+  }
+  return atoms;
+}
+
+/** Group atoms back into statements, keeping the order they were added */
+function formatAtoms(atoms: PrivilegeAtom[]): string[] {
+  const groups = new Map<string, PrivilegeStatement>();
+  for (const atom of atoms) {
+    const group = [atom.prefix, atom.action, atom.target, atom.grantee, atom.grantable].join("|");
+    const existing = groups.get(group);
+    if (existing) {
+      existing.privileges.push(atom.privilege);
+      continue;
+    }
+    groups.set(group, {
+      action: atom.action,
+      target: atom.target,
+      grantee: atom.grantee,
+      privileges: [atom.privilege],
+      grantable: atom.grantable,
+      prefix: atom.prefix,
+    });
+  }
+  return [...groups.values()].map(formatPrivilege);
+}
+
+/**
+ * Build the GRANT/REVOKE statements that turn the privileges described by
+ * `fromDdl` into the ones described by `toDdl`. Statements that undo the
+ * current state come first, followed by those that apply the target state.
+ */
+export function diffPrivileges(toDdl: string, fromDdl: string): string[] {
+  const to = parseAtoms(toDdl);
+  const from = parseAtoms(fromDdl);
+
+  const same = (a?: PrivilegeAtom, b?: PrivilegeAtom) =>
+    !!a && !!b && a.action === b.action && a.grantable === b.grantable;
+
+  const undo: PrivilegeAtom[] = [];
+  for (const [key, atom] of from) {
+    if (same(atom, to.get(key))) continue;
+    undo.push({
+      ...atom,
+      action: atom.action === "GRANT" ? "REVOKE" : "GRANT",
+      grantable: false,
+    });
+  }
+
+  const apply: PrivilegeAtom[] = [];
+  for (const [key, atom] of to) {
+    if (same(atom, from.get(key))) continue;
+    // A REVOKE that undo already issued for the same privilege is redundant
+    if (atom.action === "REVOKE" && undo.some((u) => u.action === "REVOKE" && sameAtom(u, atom))) {
+      continue;
+    }
+    apply.push(atom);
+  }
+
+  return [...formatAtoms(undo), ...formatAtoms(apply)];
+}
+
+function sameAtom(a: PrivilegeAtom, b: PrivilegeAtom): boolean {
+  return (
+    a.prefix === b.prefix &&
+    a.target === b.target &&
+    a.grantee === b.grantee &&
+    a.privilege === b.privilege
+  );
+}
@@ -25,6 +25,9 @@ export interface RcConfig {
     excludeTables?: string[];
     withData?: string[];
     maxRows?: number;
+    withSequenceValues?: boolean;
+    partitions?: "separate" | "collapse" | "skip";
+    jobs?: number;
   };
   migration?: {
     withRollback?: boolean;
@@ -33,6 +36,8 @@ export interface RcConfig {
   lint?: {
     rules?: Record<string, boolean>;
   };
+  /** Owner remapping used by extract, diff and migrate, e.g. { "alice": "app_owner" } */
+  ownerMap?: Record<string, string | null>;
 }
 
 // ─── Config Loader ────────────────────────────────────────────
@@ -131,9 +136,10 @@ function parseValue(raw: string): any {
     return raw.slice(1, -1);
   }
 
-  // Boolean
+  // Boolean / null
   if (raw === "true") return true;
   if (raw === "false") return false;
+  if (raw === "null") return null;
 
   // Number
   const num = Number(raw);
@@ -189,6 +195,20 @@ export function mergeWithCliOptions(
     if (!merged.maxRows && rcConfig.extract.maxRows) {
       merged.maxRows = String(rcConfig.extract.maxRows);
     }
+    if (merged.partitions === undefined && rcConfig.extract.partitions !== undefined) {
+      merged.partitions = rcConfig.extract.partitions;
+    }
+    if (merged.withSequenceValues === undefined && rcConfig.extract.withSequenceValues) {
+      merged.withSequenceValues = rcConfig.extract.withSequenceValues;
+    }
+    // Kept even when invalid (e.g. 0), so the CLI can reject it instead of ignoring it
+    if (merged.jobs === undefined && rcConfig.extract.jobs !== undefined) {
+      merged.jobs = String(rcConfig.extract.jobs);
+    }
+  }
+
+  if (!merged.ownerMap && rcConfig.ownerMap) {
+    merged.ownerMap = rcConfig.ownerMap;
   }
 
   // Apply migration settings if not overridden
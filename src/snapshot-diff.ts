@@ -43,7 +43,12 @@ function getGitDiff(sqlDir: string, fromRef: string, toRef: string): SnapshotDif
       const fileParts = file.split("/");
       const categories = [
         "schemas", "tables", "functions", "views", "materialized_views",
-        "sequences", "triggers", "types", "indexes", "data",
+        "sequences", "triggers", "types", "indexes", "policies", "privileges", "data",
+        "roles", "role_memberships", "tablespaces", "extensions",
+        "publications", "subscriptions", "event_triggers", "rules",
+        "foreign_data_wrappers", "foreign_servers", "user_mappings", "foreign_tables",
+        "procedures", "aggregates", "operators", "casts", "collations", "text_search",
+        "statistics", "database_settings", "partman_configs", "cron_jobs",
       ];
 
       let category = "";
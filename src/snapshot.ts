@@ -106,6 +106,18 @@ export class SnapshotManager {
 export async function getObjectHashes(client: Client): Promise<Record<string, string>> {
   const hashes: Record<string, string> = {};
 
+  // Extensions
+  const { rows: extensions } = await client.query(`
+    SELECT
+      e.extname AS obj_key,
+      md5(n.nspname || ':' || e.extversion) AS obj_hash
+    FROM pg_extension e
+    JOIN pg_namespace n ON n.oid = e.extnamespace;
+  `);
+  for (const r of extensions) {
+    hashes[`extensions/${r.obj_key}`] = r.obj_hash;
+  }
+
   // Tables
   const { rows: tables } = await client.query(`
     SELECT
@@ -124,17 +136,22 @@ export async function getObjectHashes(client: Client): Promise<Record<string, st
     hashes[`tables/${r.obj_key}`] = r.obj_hash;
   }
 
-  // Functions
+  // Functions, procedures and aggregates (pg_get_functiondef rejects aggregates)
   const { rows: funcs } = await client.query(`
     SELECT
-      n.nspname || '.' || p.proname AS obj_key,
-      md5(pg_get_functiondef(p.oid)) AS obj_hash
+      CASE p.prokind WHEN 'p' THEN 'procedures' WHEN 'a' THEN 'aggregates' ELSE 'functions' END
+        || '/' || n.nspname || '.' || p.proname
+        || '(' || pg_get_function_identity_arguments(p.oid) || ')' AS obj_key,
+      CASE WHEN p.prokind = 'a'
+        THEN (SELECT md5(a::text) FROM pg_aggregate a WHERE a.aggfnoid = p.oid)
+        ELSE md5(pg_get_functiondef(p.oid))
+      END AS obj_hash
     FROM pg_proc p
     JOIN pg_namespace n ON n.oid = p.pronamespace
     WHERE n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast');
   `);
   for (const r of funcs) {
-    hashes[`functions/${r.obj_key}`] = r.obj_hash;
+    hashes[r.obj_key] = r.obj_hash;
   }
 
   // Views
@@ -164,16 +181,41 @@ export async function getObjectHashes(client: Client): Promise<Record<string, st
   // Triggers
   const { rows: triggers } = await client.query(`
     SELECT
-      trigger_schema || '.' || trigger_name AS obj_key,
-      md5(string_agg(action_timing || event_manipulation || action_statement, '|' ORDER BY event_manipulation)) AS obj_hash
-    FROM information_schema.triggers
-    WHERE trigger_schema NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
-    GROUP BY trigger_schema, trigger_name;
+      n.nspname || '.' || c.relname || '.' || t.tgname AS obj_key,
+      md5(pg_get_triggerdef(t.oid) || t.tgenabled) AS obj_hash
+    FROM pg_trigger t
+    JOIN pg_class c ON c.oid = t.tgrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE NOT t.tgisinternal
+      AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast');
   `);
   for (const r of triggers) {
     hashes[`triggers/${r.obj_key}`] = r.obj_hash;
   }
 
+  // Event triggers
+  const { rows: eventTriggers } = await client.query(`
+    SELECT
+      evtname AS obj_key,
+      md5(evtevent || evtfoid::regproc::text || evtenabled || COALESCE(evttags::text, '')) AS obj_hash
+    FROM pg_event_trigger;
+  `);
+  for (const r of eventTriggers) {
+    hashes[`event_triggers/${r.obj_key}`] = r.obj_hash;
+  }
+
+  // Rules
+  const { rows: rules } = await client.query(`
+    SELECT
+      schemaname || '.' || tablename || '.' || rulename AS obj_key,
+      md5(definition) AS obj_hash
+    FROM pg_rules
+    WHERE schemaname NOT IN ('pg_catalog', 'information_schema', 'pg_toast');
+  `);
+  for (const r of rules) {
+    hashes[`rules/${r.obj_key}`] = r.obj_hash;
+  }
+
   // Indexes
   const { rows: indexes } = await client.query(`
     SELECT
@@ -190,6 +232,113 @@ export async function getObjectHashes(client: Client): Promise<Record<string, st
     hashes[`indexes/${r.obj_key}`] = r.obj_hash;
   }
 
+  // Extended statistics
+  const { rows: statistics } = await client.query(`
+    SELECT
+      n.nspname || '.' || s.stxname AS obj_key,
+      md5(pg_get_statisticsobjdef(s.oid)) AS obj_hash
+    FROM pg_statistic_ext s
+    JOIN pg_namespace n ON n.oid = s.stxnamespace
+    WHERE n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast');
+  `);
+  for (const r of statistics) {
+    hashes[`statistics/${r.obj_key}`] = r.obj_hash;
+  }
+
+  // Policies
+  const { rows: policies } = await client.query(`
+    SELECT
+      schemaname || '.' || tablename || '.' || policyname AS obj_key,
+      md5(permissive || cmd || array_to_string(roles, ',') || COALESCE(qual, '') || COALESCE(with_check, '')) AS obj_hash
+    FROM pg_policies
+    WHERE schemaname NOT IN ('pg_catalog', 'information_schema', 'pg_toast');
+  `);
+  for (const r of policies) {
+    hashes[`policies/${r.obj_key}`] = r.obj_hash;
+  }
+
+  // Privileges
+  const { rows: acls } = await client.query(`
+    SELECT
+      'table.' || n.nspname || '.' || c.relname AS obj_key,
+      md5(c.relacl::text) AS obj_hash
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relacl IS NOT NULL
+      AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+    UNION ALL
+    SELECT
+      'function.' || n.nspname || '.' || p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')',
+      md5(p.proacl::text)
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE p.proacl IS NOT NULL
+      AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+    UNION ALL
+    SELECT 'default.' || d.oid, md5(d.defaclacl::text)
+    FROM pg_default_acl d;
+  `);
+  for (const r of acls) {
+    hashes[`privileges/${r.obj_key}`] = r.obj_hash;
+  }
+
+  // Publications
+  const { rows: pubs } = await client.query(`
+    SELECT
+      p.pubname AS obj_key,
+      md5(
+        p.puballtables::text || p.pubinsert || p.pubupdate || p.pubdelete || p.pubtruncate ||
+        COALESCE((
+          SELECT string_agg(pr.prrelid::regclass::text, ',' ORDER BY pr.prrelid::regclass::text)
+          FROM pg_publication_rel pr
+          WHERE pr.prpubid = p.oid
+        ), '')
+      ) AS obj_hash
+    FROM pg_publication p;
+  `);
+  for (const r of pubs) {
+    hashes[`publications/${r.obj_key}`] = r.obj_hash;
+  }
+
+  // Foreign servers and tables
+  const { rows: foreign } = await client.query(`
+    SELECT 'foreign_servers/' || srvname AS obj_key, md5(COALESCE(srvoptions::text, '')) AS obj_hash
+    FROM pg_foreign_server
+    UNION ALL
+    SELECT
+      'foreign_tables/' || n.nspname || '.' || c.relname,
+      md5(ft.ftserver::text || COALESCE(ft.ftoptions::text, ''))
+    FROM pg_foreign_table ft
+    JOIN pg_class c ON c.oid = ft.ftrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace;
+  `);
+  for (const r of foreign) {
+    hashes[r.obj_key] = r.obj_hash;
+  }
+
+  // Collations and casts
+  const { rows: collationsAndCasts } = await client.query(`
+    SELECT
+      'collations/' || n.nspname || '.' || c.collname AS obj_key,
+      md5(c.collprovider || c.collisdeterministic::text || c.collcollate || c.collctype) AS obj_hash
+    FROM pg_collation c
+    JOIN pg_namespace n ON n.oid = c.collnamespace
+    WHERE n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+    UNION ALL
+    SELECT
+      'casts/' || format_type(castsource, NULL) || ' AS ' || format_type(casttarget, NULL),
+      md5(castfunc::text || castcontext || castmethod)
+    FROM pg_cast c
+    WHERE c.oid >= 16384
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend d
+        WHERE d.classid = 'pg_cast'::regclass AND d.objid = c.oid AND d.deptype = 'i'
+      );
+  `);
+  for (const r of collationsAndCasts) {
+    hashes[r.obj_key] = r.obj_hash;
+  }
+
   // Sequences
   const { rows: seqs } = await client.query(`
     SELECT
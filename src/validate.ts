@@ -4,6 +4,7 @@ import { Client } from "pg";
 import { program } from "commander";
 const pkg = require("../package.json");
 import { DbCliOptions, runWithConnection } from "./cli-utils";
+import { sanitize } from "./writer";
 
 interface ValidationResult {
   rule: string;
@@ -69,12 +70,14 @@ async function validateAgainstDb(
 
   // Get live function list
   const { rows: liveFuncs } = await client.query(`
-    SELECT n.nspname || '.' || p.proname AS full_name
+    SELECT n.nspname || '.' || p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')' AS full_name
     FROM pg_proc p
     JOIN pg_namespace n ON n.oid = p.pronamespace
-    WHERE n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast');
+    WHERE n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+      AND p.prokind IN ('f', 'w');
   `);
-  const liveFuncSet = new Set(liveFuncs.map((f: { full_name: string }) => f.full_name));
+  // Function files are named after the sanitized identity signature
+  const liveFuncSet = new Set(liveFuncs.map((f: { full_name: string }) => sanitize(f.full_name)));
 
   const funcsDir = path.join(sqlDir, "functions");
   if (fs.existsSync(funcsDir)) {
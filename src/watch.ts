@@ -2,8 +2,9 @@ import * as path from "path";
 import { Client } from "pg";
 import { program } from "commander";
 const pkg = require("../package.json");
-import { SqlFileWriter } from "./writer";
+import { SqlFileWriter, writeManifest } from "./writer";
 import { DdlExtractor } from "./extractor";
+import { beginSnapshot, endSnapshot } from "./pool";
 import { DbCliOptions, DbConnection, connectToDatabase, closeConnection } from "./cli-utils";
 
 // ─── Parse CLI args ───────────────────────────────────────────────
@@ -56,11 +57,12 @@ async function getSchemaHash(client: Client): Promise<string> {
       UNION ALL
 
       SELECT 'function' AS obj_type,
-             n.nspname || '.' || p.proname AS obj_name,
+             n.nspname || '.' || p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')' AS obj_name,
              md5(pg_get_functiondef(p.oid)) AS obj_def
       FROM pg_proc p
       JOIN pg_namespace n ON n.oid = p.pronamespace
       WHERE n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        AND p.prokind <> 'a'
 
       UNION ALL
 
@@ -81,10 +83,13 @@ async function getSchemaHash(client: Client): Promise<string> {
       UNION ALL
 
       SELECT 'trigger' AS obj_type,
-             trigger_schema || '.' || trigger_name AS obj_name,
-             md5(action_statement) AS obj_def
-      FROM information_schema.triggers
-      WHERE trigger_schema NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+             n.nspname || '.' || c.relname || '.' || t.tgname AS obj_name,
+             md5(pg_get_triggerdef(t.oid) || t.tgenabled) AS obj_def
+      FROM pg_trigger t
+      JOIN pg_class c ON c.oid = t.tgrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE NOT t.tgisinternal
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
     ) sub;
   `);
 
@@ -128,23 +133,35 @@ async function main(): Promise<void> {
     let lastHash = "";
     let checkCount = 0;
 
-    const doExtract = async (): Promise<void> => {
-      const writer = new SqlFileWriter(outputDir);
-      const extractor = new DdlExtractor(conn.client, writer);
-      await extractor.extractAll();
-
-      const stats = writer.getChangeStats();
-      const summary = writer.getSummary();
-      const total = Object.values(summary).reduce((a, b) => a + b, 0);
-
-      if (stats.created > 0 || stats.updated > 0) {
-        console.log(`\n  📦 Extracted ${total} objects (${stats.created} new, ${stats.updated} updated)`);
+    // Extracts in one snapshot and returns the schema hash of that same snapshot
+    const doExtract = async (): Promise<string> => {
+      const snapshotInfo = await beginSnapshot(conn.client);
+      try {
+        const writer = new SqlFileWriter(outputDir);
+        const extractor = new DdlExtractor(conn.client, writer);
+        await extractor.extractAll();
+        writeManifest(outputDir, {
+          database: (conn.config.database as string) || "unknown",
+          extractedAt: new Date().toISOString(),
+          jobs: 1,
+          ...snapshotInfo,
+        });
+
+        const stats = writer.getChangeStats();
+        const summary = writer.getSummary();
+        const total = Object.values(summary).reduce((a, b) => a + b, 0);
+
+        if (stats.created > 0 || stats.updated > 0) {
+          console.log(`\n  📦 Extracted ${total} objects (${stats.created} new, ${stats.updated} updated)`);
+        }
+        return await getSchemaHash(conn.client);
+      } finally {
+        await endSnapshot(conn.client);
       }
     };
 
     console.log("  📦 Initial extraction...");
-    await doExtract();
-    lastHash = await getSchemaHash(conn.client);
+    lastHash = await doExtract();
     console.log(`\n  👀 Watching for changes (every ${intervalSec}s)... Press Ctrl+C to stop\n`);
 
     // Polling loop
@@ -156,8 +173,7 @@ async function main(): Promise<void> {
         if (currentHash !== lastHash) {
           const time = new Date().toISOString().slice(11, 19);
           console.log(`  🔄 [${time}] Schema change detected! Re-extracting...`);
-          await doExtract();
-          lastHash = currentHash;
+          lastHash = await doExtract();
         } else if (checkCount % 10 === 0) {
           const time = new Date().toISOString().slice(11, 19);
           console.log(`  💤 [${time}] No changes (${checkCount} checks)`);
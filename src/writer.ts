@@ -1,21 +1,46 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as crypto from "crypto";
+import { SnapshotInfo } from "./pool";
 
 /** Object categories mapped to folder names */
 export type ObjectCategory =
+  | "database_settings"
+  | "extensions"
   | "schemas"
   | "tables"
+  | "foreign_data_wrappers"
+  | "foreign_servers"
+  | "user_mappings"
+  | "foreign_tables"
   | "functions"
+  | "procedures"
+  | "aggregates"
+  | "operators"
+  | "casts"
+  | "collations"
+  | "text_search"
   | "views"
   | "materialized_views"
   | "sequences"
   | "triggers"
+  | "event_triggers"
+  | "rules"
   | "types"
-  | "indexes";
+  | "indexes"
+  | "statistics"
+  | "policies"
+  | "privileges"
+  | "publications"
+  | "subscriptions"
+  | "partman_configs"
+  | "cron_jobs"
+  | "roles"
+  | "role_memberships"
+  | "tablespaces";
 
 /** Sanitize a name for safe filesystem usage */
-function sanitize(name: string): string {
+export function sanitize(name: string): string {
   return name.replace(/[^\w.\-]/g, "_");
 }
 
@@ -44,6 +69,21 @@ function contentHash(content: string): string {
   return crypto.createHash("md5").update(normalized).digest("hex");
 }
 
+/** The database state an extraction was read from, written to _manifest.json */
+export interface ExtractionManifest extends SnapshotInfo {
+  database: string;
+  extractedAt: string;
+  jobs: number;
+}
+
+/** Write _manifest.json, so the extracted files identify an exact database state */
+export function writeManifest(baseDir: string, manifest: ExtractionManifest): string {
+  fs.mkdirSync(baseDir, { recursive: true });
+  const filepath = path.join(baseDir, "_manifest.json");
+  fs.writeFileSync(filepath, JSON.stringify(manifest, null, 2) + "\n", "utf-8");
+  return filepath;
+}
+
 export class SqlFileWriter {
   private baseDir: string;
   private counts: Record<string, number> = {};
@@ -97,17 +137,26 @@ export class SqlFileWriter {
 
   /** Write a combined full dump file (only if changed) */
   writeFull(allDdl: string): string {
-    const filepath = path.join(this.baseDir, "_full_dump.sql");
+    return this.writeRootFile("_full_dump.sql", "FULL DATABASE DDL DUMP", allDdl);
+  }
+
+  /** Write the setval() calls restoring sequence values (only if changed) */
+  writeSequenceValues(statements: string): string {
+    return this.writeRootFile("_sequence_values.sql", "SEQUENCE VALUES", statements);
+  }
+
+  private writeRootFile(filename: string, title: string, body: string): string {
+    const filepath = path.join(this.baseDir, filename);
     const header = [
       "-- =============================================================",
-      `-- FULL DATABASE DDL DUMP`,
+      `-- ${title}`,
       `-- Extracted: ${new Date().toISOString()}`,
       "-- =============================================================",
       "",
       "",
     ].join("\n");
 
-    const newContent = header + allDdl;
+    const newContent = header + body;
 
     // Check if file exists and compare content (ignoring header)
     if (fs.existsSync(filepath)) {